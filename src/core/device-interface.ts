@@ -1,6 +1,17 @@
 /**
  * Core interfaces for haptic devices
  */
+import type { FunscriptStats } from "./script-analyzer";
+import type { ScriptBundle } from "./script-archive";
+import type {
+  FunscriptSimplifyReport,
+  SimplifyOptions,
+} from "./script-simplifier";
+import type { ScriptLoopOptions } from "./script-loop";
+import type {
+  ScriptDiagnostic,
+  ScriptValidationOptions,
+} from "./script-validator";
 
 /**
  * The connection state of a device
@@ -53,25 +64,133 @@ export interface FunscriptAction {
   pos: number; // Position 0-100
 }
 
+/**
+ * Rotation action (Vorze-style rotation scripts)
+ */
+export interface RotationAction {
+  at: number; // Timestamp in milliseconds
+  speed: number; // Rotation speed 0-100
+  clockwise: boolean; // Rotation direction
+}
+
+/**
+ * Additional axis of a multi-axis funscript
+ */
+export interface FunscriptAxis {
+  id: string; // Axis id (e.g. "R0" for twist, "V0" for vibration)
+  actions: FunscriptAction[];
+  [key: string]: unknown;
+}
+
+/**
+ * Chapter in the funscript 1.1 metadata block
+ */
+export interface FunscriptChapter {
+  name: string;
+  startTime: string | number; // "HH:MM:SS.mmm" or milliseconds
+  endTime?: string | number; // "HH:MM:SS.mmm" or milliseconds
+  [key: string]: unknown;
+}
+
+/**
+ * Bookmark in the funscript 1.1 metadata block
+ */
+export interface FunscriptBookmark {
+  name: string;
+  time: string | number; // "HH:MM:SS.mmm" or milliseconds
+  [key: string]: unknown;
+}
+
+/**
+ * Funscript metadata block (funscript 1.1)
+ */
+export interface FunscriptMetadata {
+  title?: string;
+  creator?: string;
+  description?: string;
+  duration?: number; // Video duration in seconds
+  license?: string;
+  notes?: string;
+  performers?: string[];
+  tags?: string[];
+  script_url?: string;
+  video_url?: string;
+  type?: string; // e.g. "basic"
+  chapters?: FunscriptChapter[];
+  bookmarks?: FunscriptBookmark[];
+  convertedFrom?: string; // Source format of converted scripts (e.g. "csv")
+  [key: string]: unknown;
+}
+
+/**
+ * A chapter on the script timeline
+ */
+export interface ScriptChapter {
+  name: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * A bookmark on the script timeline
+ */
+export interface ScriptBookmark {
+  name: string;
+  timeMs: number;
+}
+
 /**
  * Funscript format
  */
 export interface Funscript {
-  actions: FunscriptAction[];
+  actions: FunscriptAction[]; // Primary (L0 stroke) axis
+  axes?: FunscriptAxis[]; // Additional axes for multi-axis scripts
+  rotation?: RotationAction[]; // Rotation track (e.g. from Vorze CSV scripts)
   inverted?: boolean;
   range?: number;
   version?: string;
-  metadata?: Record<string, unknown>;
+  metadata?: FunscriptMetadata;
   [key: string]: unknown;
 }
 
+/**
+ * Script content provided directly: a parsed funscript, raw script text,
+ * a File/Blob or binary data
+ */
+export type ScriptContent =
+  | Funscript
+  | string
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView;
+
+/**
+ * Request options used when fetching script URLs
+ */
+export interface ScriptFetchOptions {
+  headers?: HeadersInit; // e.g. { Authorization: "Bearer ..." }
+  credentials?: RequestCredentials; // Send cookies with the request
+}
+
 /**
  * Script data interface - input for loading scripts
  */
 export interface ScriptData {
-  type: string; // Script type (e.g., "funscript", "csv")
-  url?: string; // URL to script if remote
-  content?: Funscript; // Script content if loaded directly
+  type: string; // Script type (e.g., "funscript", "csv", "vorze", "kiiroo", "launch", "ini", "realtouch")
+  format?: string; // Registered format name, skips format detection (e.g., "csv")
+  url?: string; // URL to script if remote (http(s), blob: or data: URL)
+  content?: ScriptContent; // Script content if loaded directly
+  entry?: string; // Script to load from a zip bundle (default: picked by naming)
+  fetchOptions?: ScriptFetchOptions; // Request options for `url` and axis URLs
+  axes?: Record<string, string | Exclude<ScriptContent, string>>; // Additional axis scripts (URL or content) keyed by axis id or name
+}
+
+/**
+ * A named script transform with its parameters
+ */
+export interface ScriptTransform {
+  name: string; // Registered transform name (e.g. "offset", "range")
+  params?: Record<string, unknown>; // Transform-specific parameters
 }
 
 /**
@@ -79,6 +198,37 @@ export interface ScriptData {
  */
 export interface ScriptOptions {
   invertScript?: boolean; // Whether to invert script values
+  transforms?: ScriptTransform[]; // Transforms applied in order after loading
+  limitSpeed?: boolean; // Apply each device's speed limit when preparing (default true)
+  simplify?: SimplifyOptions; // Reduce the number of actions after the transforms
+  limitPoints?: boolean; // Apply each device's point limits when preparing (default true)
+  analyze?: boolean; // Include script statistics in the load result
+  validate?: boolean | ScriptValidationOptions; // Report diagnostics, fail on errors unless repair is set
+  loadSiblingAxes?: boolean | string[]; // Probe sibling axis files (e.g. video.twist.funscript), all known axes or only the given ones
+  signal?: AbortSignal; // Cancels fetching, parsing and device preparation
+  fetchTimeoutMs?: number; // Abort script downloads taking longer than this
+  maxInflatedBytes?: number; // Fail compressed scripts and zip bundles decompressing to more than this (default 32MB)
+  onProgress?: (progress: ScriptLoadProgress) => void; // Called as loading advances
+  scriptId?: string; // Script to load for DeviceManager routes (default "main")
+}
+
+/**
+ * Progress of a script load
+ */
+export interface ScriptLoadProgress {
+  stage: "downloading" | "parsing" | "preparing";
+  loaded?: number; // Bytes downloaded so far
+  total?: number; // Total bytes, when the server sends Content-Length
+  deviceId?: string; // Device being prepared
+}
+
+/**
+ * Physical limits a device declares for the scripts it plays
+ */
+export interface DeviceScriptLimits {
+  maxSpeed?: number; // Maximum speed in position units (0-100) per second
+  maxPoints?: number; // Maximum number of actions per axis
+  minIntervalMs?: number; // Minimum time between actions
 }
 
 /**
@@ -87,6 +237,7 @@ export interface ScriptOptions {
 export interface DeviceScriptLoadResult {
   success: boolean;
   error?: string;
+  simplification?: FunscriptSimplifyReport; // Error introduced by the device's point limits
 }
 
 /**
@@ -99,6 +250,22 @@ export interface ScriptLoadResult {
   success: boolean;
   /** Error message if fetching/parsing failed */
   error?: string;
+  /** Name of the format the script was parsed as (e.g. "funscript", "csv") */
+  format?: string;
+  /** Scripts found when loading from a zip bundle */
+  bundle?: ScriptBundle;
+  /** Ids of the axes found in the script (e.g. ["L0", "R0"]) */
+  axes?: string[];
+  /** Chapters from the script metadata, sorted by start time */
+  chapters?: ScriptChapter[];
+  /** Bookmarks from the script metadata, sorted by time */
+  bookmarks?: ScriptBookmark[];
+  /** Error introduced by ScriptOptions.simplify */
+  simplification?: FunscriptSimplifyReport;
+  /** Script statistics, when requested with ScriptOptions.analyze */
+  stats?: FunscriptStats;
+  /** Validation diagnostics, when requested with ScriptOptions.validate */
+  diagnostics?: ScriptDiagnostic[];
   /** Per-device load results */
   devices: Record<string, DeviceScriptLoadResult>;
 }
@@ -115,11 +282,28 @@ export interface HapticDevice {
   readonly type: string;
   readonly capabilities: DeviceCapability[];
 
+  /**
+   * Funscript axes the device can consume (defaults to ["L0"])
+   */
+  readonly supportedAxes?: string[];
+
+  /**
+   * Physical limits applied to scripts before they are prepared on the device
+   */
+  readonly scriptLimits?: DeviceScriptLimits;
+
+  /**
+   * Whether the device compensates its own command latency (e.g. Handy's
+   * server time sync), so DeviceManager doesn't lead its start and sync times
+   */
+  readonly latencyCompensated?: boolean;
+
   /**
    * Connection state
    */
   readonly isConnected: boolean;
   readonly isPlaying: boolean;
+  readonly isPaused?: boolean; // Paused with pause(), until resumed or stopped
 
   /**
    * Connect to the device
@@ -148,8 +332,9 @@ export interface HapticDevice {
    * The funscript content is already parsed - device just needs to prepare it
    * (e.g., upload to server for Handy, store in memory for Buttplug)
    *
-   * @param funscript The parsed funscript content
-   * @param options Script options (e.g., inversion already applied)
+   * @param funscript The parsed funscript content, limited to the device's supported axes
+   * @param options Script options (e.g., inversion already applied); devices
+   *   stop preparing and report failure once `options.signal` is aborted
    */
   prepareScript(
     funscript: Funscript,
@@ -160,15 +345,34 @@ export interface HapticDevice {
    * Play the loaded script at the specified time
    * @param timeMs Current time in milliseconds
    * @param playbackRate Playback rate (1.0 = normal speed)
-   * @param loop Whether to loop the script
+   * @param loop Loop the whole script (true) or a range, optionally
+   *   crossfading the seam; devices without native looping emulate it
    */
-  play(timeMs: number, playbackRate?: number, loop?: boolean): Promise<boolean>;
+  play(
+    timeMs: number,
+    playbackRate?: number,
+    loop?: boolean | ScriptLoopOptions
+  ): Promise<boolean>;
 
   /**
    * Stop playback
    */
   stop(): Promise<boolean>;
 
+  /**
+   * Pause playback, keeping the position and playback settings for resume.
+   * Devices without native pausing stop their motion and remember where
+   * they were. Optional: DeviceManager stops devices without pause and
+   * resume, and plays them again on resume.
+   */
+  pause?(): Promise<boolean>;
+
+  /**
+   * Resume paused playback
+   * @param timeMs Time to resume at (default: the time it was paused at)
+   */
+  resume?(timeMs?: number): Promise<boolean>;
+
   /**
    * Synchronize device time with provided time
    * @param timeMs Current time in milliseconds
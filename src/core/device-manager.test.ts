@@ -0,0 +1,513 @@
+import {
+  DeviceCapability,
+  DeviceInfo,
+  DeviceScriptLoadResult,
+  DeviceSettings,
+  Funscript,
+  HapticDevice,
+} from "./device-interface";
+import {
+  DeviceCommandsEvent,
+  DeviceManager,
+  LoopIterationEvent,
+} from "./device-manager";
+import { EventEmitter } from "./events";
+import { ScriptLoopOptions } from "./script-loop";
+
+/**
+ * Device recording the commands it receives, taking `latencyMs` of fake
+ * time to handle play and sync commands
+ */
+class FakeDevice extends EventEmitter implements HapticDevice {
+  readonly name = "Fake";
+  readonly type = "fake";
+  readonly capabilities = [DeviceCapability.LINEAR];
+  supportedAxes?: string[];
+  isConnected = true;
+  isPlaying = false;
+  isPaused = false;
+  latencyCompensated = false;
+  latencyMs = 0;
+  succeeds = true;
+  /** Offset setting, applied by the device itself when set */
+  offset?: number;
+  syncs: number[] = [];
+  prepared: Funscript[] = [];
+  plays: {
+    timeMs: number;
+    playbackRate?: number;
+    loop?: boolean | ScriptLoopOptions;
+  }[] = [];
+
+  constructor(readonly id: string) {
+    super();
+  }
+
+  async connect(): Promise<boolean> {
+    return true;
+  }
+
+  async disconnect(): Promise<boolean> {
+    return true;
+  }
+
+  getConfig(): DeviceSettings {
+    return {
+      id: this.id,
+      name: this.name,
+      enabled: true,
+      ...(this.offset === undefined ? {} : { offset: this.offset }),
+    };
+  }
+
+  async updateConfig(config: Partial<DeviceSettings>): Promise<boolean> {
+    if (typeof config.offset === "number") {
+      this.offset = config.offset;
+    }
+    return true;
+  }
+
+  async prepareScript(funscript: Funscript): Promise<DeviceScriptLoadResult> {
+    this.prepared.push(funscript);
+    return { success: true };
+  }
+
+  async play(
+    timeMs: number,
+    playbackRate?: number,
+    loop?: boolean | ScriptLoopOptions
+  ): Promise<boolean> {
+    this.plays.push({ timeMs, playbackRate, loop });
+    jest.setSystemTime(Date.now() + this.latencyMs);
+    this.isPlaying = this.succeeds;
+    return this.succeeds;
+  }
+
+  async stop(): Promise<boolean> {
+    this.isPlaying = false;
+    this.isPaused = false;
+    return true;
+  }
+
+  async pause(): Promise<boolean> {
+    this.isPlaying = false;
+    this.isPaused = true;
+    return true;
+  }
+
+  async resume(): Promise<boolean> {
+    this.isPlaying = true;
+    this.isPaused = false;
+    return true;
+  }
+
+  async syncTime(timeMs: number): Promise<boolean> {
+    this.syncs.push(timeMs);
+    jest.setSystemTime(Date.now() + this.latencyMs);
+    return this.succeeds;
+  }
+
+  getDeviceInfo(): DeviceInfo | null {
+    return null;
+  }
+}
+
+const script: Funscript = {
+  actions: [
+    { at: 0, pos: 0 },
+    { at: 10000, pos: 100 },
+  ],
+};
+
+describe("DeviceManager", () => {
+  let manager: DeviceManager;
+  let device: FakeDevice;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+
+    manager = new DeviceManager();
+    device = new FakeDevice("fake");
+    manager.registerDevice(device);
+    await manager.loadScript({ type: "funscript", content: script });
+  });
+
+  afterEach(async () => {
+    await manager.stopAll();
+    jest.useRealTimers();
+  });
+
+  describe("loop range", () => {
+    const rangeLoop = { startMs: 1000, endMs: 2000, crossfadeMs: undefined };
+
+    it("rejects invalid ranges", async () => {
+      await expect(
+        manager.setLoopRange({ startMs: 2000, endMs: 1000 })
+      ).rejects.toThrow("Invalid loop range");
+      await expect(
+        manager.setLoopRange({ startMs: 0, endMs: 1000, repeat: 0 })
+      ).rejects.toThrow("Invalid loop range");
+    });
+
+    it("plays times before the range as they are", async () => {
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000, repeat: 2 });
+      await manager.playAll(500);
+
+      expect(device.plays[0]).toMatchObject({ timeMs: 500, loop: rangeLoop });
+      expect(manager.getLoopIteration()).toBe(0);
+    });
+
+    it("maps times in later passes into the range", async () => {
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000, repeat: 3 });
+      await manager.playAll(2500);
+
+      expect(device.plays[0]).toMatchObject({ timeMs: 1500, loop: rangeLoop });
+      expect(manager.getLoopIteration()).toBe(1);
+    });
+
+    it("stops looping the range on the last pass", async () => {
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000, repeat: 2 });
+      await manager.playAll(2500);
+
+      expect(device.plays[0]).toMatchObject({ timeMs: 1500, loop: false });
+    });
+
+    it("continues after the range once all passes are done", async () => {
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000, repeat: 2 });
+      await manager.playAll(3500);
+
+      expect(device.plays[0]).toMatchObject({ timeMs: 2500, loop: false });
+      expect(manager.getLoopIteration()).toBe(2);
+    });
+
+    it("repeats forever without a repeat count", async () => {
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000 });
+      await manager.playAll(5500);
+
+      expect(device.plays[0]).toMatchObject({ timeMs: 1500, loop: rangeLoop });
+      expect(manager.getPlaybackTime()).toBe(1500);
+    });
+
+    it("keeps the script position when set while playing", async () => {
+      await manager.playAll(1000);
+      jest.setSystemTime(200);
+
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000, repeat: 2 });
+
+      expect(device.plays[1]).toMatchObject({ timeMs: 1200, loop: rangeLoop });
+      expect(manager.getLoopIteration()).toBe(0);
+      expect(manager.getPlaybackTime()).toBe(1200);
+    });
+
+    it("jumps back to the range start when set past its end", async () => {
+      await manager.playAll(4000);
+
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000 });
+
+      expect(device.plays[1]).toMatchObject({ timeMs: 1000, loop: rangeLoop });
+    });
+
+    it("emits loopIteration when a pass starts", async () => {
+      const events: LoopIterationEvent[] = [];
+      manager.on("loopIteration", (event) => events.push(event));
+
+      await manager.setLoopRange({ startMs: 1000, endMs: 2000, repeat: 2 });
+      await manager.playAll(1800);
+      jest.advanceTimersByTime(250);
+
+      expect(events).toEqual([{ iteration: 1, remaining: 0, timeMs: 1050 }]);
+      // Re-played without the range loop for the last pass
+      expect(device.plays[1]).toMatchObject({ timeMs: 1050, loop: false });
+    });
+  });
+
+  describe("playback commands", () => {
+    it("returns the success per device", async () => {
+      const offline = new FakeDevice("offline");
+      offline.isConnected = false;
+      manager.registerDevice(offline);
+
+      expect(await manager.playAll(0)).toEqual({
+        fake: true,
+        offline: false,
+      });
+    });
+
+    it("reports the timing per device with deviceCommands", async () => {
+      const events: DeviceCommandsEvent[] = [];
+      manager.on("deviceCommands", (event) => events.push(event));
+      device.latencyMs = 120;
+
+      await manager.playAll(0);
+
+      expect(events).toEqual([
+        {
+          command: "play",
+          results: {
+            fake: { success: true, latencyMs: 120, compensationMs: 0 },
+          },
+        },
+      ]);
+    });
+
+    it("returns the timing per device from playAllDetailed", async () => {
+      device.latencyMs = 100;
+      await manager.playAll(0);
+      device.latencyMs = 120;
+
+      expect(await manager.playAllDetailed(0)).toEqual({
+        fake: { success: true, latencyMs: 120, compensationMs: 100 },
+      });
+    });
+
+    it("keeps a moving average of the command latency", async () => {
+      expect(manager.getDeviceLatency("fake")).toBeNull();
+
+      device.latencyMs = 100;
+      await manager.playAll(0);
+      expect(manager.getDeviceLatency("fake")).toBe(100);
+
+      device.latencyMs = 200;
+      await manager.syncTimeAll(0);
+      expect(manager.getDeviceLatency("fake")).toBe(130);
+    });
+
+    it("ignores failed and very slow commands as latency samples", async () => {
+      device.latencyMs = 100;
+      await manager.playAll(0);
+
+      device.latencyMs = 5000;
+      await manager.syncTimeAll(0);
+
+      device.latencyMs = 10;
+      device.succeeds = false;
+      await manager.syncTimeAll(0);
+
+      expect(manager.getDeviceLatency("fake")).toBe(100);
+    });
+
+    it("leads the time sent by the expected latency", async () => {
+      device.latencyMs = 100;
+      await manager.playAll(0);
+
+      await manager.playAll(1000, 2);
+
+      expect(device.plays[1].timeMs).toBe(1200);
+    });
+
+    it("sends the time as is to devices compensating themselves", async () => {
+      device.latencyCompensated = true;
+      device.latencyMs = 100;
+      await manager.playAll(0);
+
+      await manager.playAll(1000);
+
+      expect(device.plays[1].timeMs).toBe(1000);
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("pauses and resumes the playing devices", async () => {
+      await manager.playAll(1000);
+
+      expect(await manager.pauseAll()).toEqual({ fake: true });
+      expect(device.isPaused).toBe(true);
+      expect(await manager.resumeAll()).toEqual({ fake: true });
+      expect(device.isPlaying).toBe(true);
+    });
+
+    it("stops and plays again devices without pause and resume", async () => {
+      const basic = new FakeDevice("basic");
+      Object.assign(basic, { pause: undefined, resume: undefined });
+      manager.registerDevice(basic);
+      await manager.loadScript({ type: "funscript", content: script });
+
+      await manager.playAll(1000, 1, true);
+      jest.setSystemTime(500);
+      await manager.pauseAll();
+
+      expect(basic.isPlaying).toBe(false);
+      expect(await manager.resumeAll()).toEqual({ fake: true, basic: true });
+      expect(basic.plays[1]).toEqual({
+        timeMs: 1500,
+        playbackRate: 1,
+        loop: true,
+      });
+    });
+
+    it("doesn't play stopped devices again after stopAll", async () => {
+      const basic = new FakeDevice("basic");
+      Object.assign(basic, { pause: undefined, resume: undefined });
+      manager.registerDevice(basic);
+      await manager.loadScript({ type: "funscript", content: script });
+
+      await manager.playAll(1000);
+      await manager.pauseAll();
+      await manager.stopAll();
+
+      expect(await manager.resumeAll()).toEqual({ fake: false, basic: false });
+      expect(basic.plays).toHaveLength(1);
+    });
+  });
+
+  describe("device offsets", () => {
+    it("stores the offset in devices with an offset setting", async () => {
+      device.offset = 0;
+
+      expect(await manager.setDeviceOffset("fake", 150)).toBe(true);
+      await manager.playAll(1000);
+      await manager.syncTimeAll(2000);
+
+      expect(device.offset).toBe(150);
+      expect(manager.getDeviceOffset("fake")).toBe(150);
+      expect(device.plays[0].timeMs).toBe(1000);
+      expect(device.syncs).toEqual([2000]);
+    });
+
+    it("shifts the times it sends to other devices", async () => {
+      expect(await manager.setDeviceOffset("fake", 150)).toBe(true);
+      await manager.playAll(1000);
+      await manager.syncTimeAll(2000);
+
+      expect(device.offset).toBeUndefined();
+      expect(manager.getDeviceOffset("fake")).toBe(150);
+      expect(device.plays[0].timeMs).toBe(1150);
+      expect(device.syncs).toEqual([2150]);
+    });
+
+    it("syncs a playing device to a new offset like syncTimeAll", async () => {
+      const other = new FakeDevice("other");
+      manager.registerDevice(other);
+      device.latencyMs = 100;
+      await manager.playAll(1000);
+      await other.stop();
+
+      const events: DeviceCommandsEvent[] = [];
+      manager.on("deviceCommands", (event) => events.push(event));
+      jest.setSystemTime(Date.now() + 400);
+      device.latencyMs = 50;
+
+      expect(await manager.setDeviceOffset("fake", -200)).toBe(true);
+      // 500ms into playback, ahead by the offset and the expected latency
+      expect(device.syncs).toEqual([500 + 1000 - 200 + 100]);
+      expect(events).toEqual([
+        {
+          command: "syncTime",
+          results: {
+            fake: { success: true, latencyMs: 50, compensationMs: 100 },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe("routes", () => {
+    const twist: Funscript = {
+      actions: [
+        { at: 0, pos: 20 },
+        { at: 5000, pos: 80 },
+      ],
+      axes: [
+        {
+          id: "R0",
+          actions: [
+            { at: 0, pos: 50 },
+            { at: 2000, pos: 10 },
+          ],
+        },
+      ],
+    };
+    let other: FakeDevice;
+
+    beforeEach(() => {
+      other = new FakeDevice("other");
+      manager.registerDevice(other);
+      device.prepared = [];
+      other.prepared = [];
+    });
+
+    it("prepares a script only on the devices routed to it", async () => {
+      await manager.setRoutes([{ deviceId: "other", scriptId: "twist" }]);
+      device.prepared = [];
+
+      const result = await manager.loadScript(
+        { type: "funscript", content: twist },
+        { scriptId: "twist" }
+      );
+
+      expect(Object.keys(result.devices)).toEqual(["other"]);
+      expect(device.prepared).toEqual([]);
+      expect(other.prepared).toHaveLength(1);
+      expect(other.prepared[0].actions).toEqual(twist.actions);
+    });
+
+    it("plays the main script on devices without routes", async () => {
+      const results = await manager.setRoutes([
+        { deviceId: "other", scriptId: "twist" },
+      ]);
+
+      expect(Object.keys(results)).toEqual(["fake"]);
+      expect(device.prepared[0].actions).toEqual(script.actions);
+      expect(other.prepared).toEqual([]);
+    });
+
+    it("sends the axes a route picks to the given device axes", async () => {
+      other.supportedAxes = ["L0", "R0"];
+      await manager.loadScript(
+        { type: "funscript", content: twist },
+        { scriptId: "twist" }
+      );
+
+      await manager.setRoutes([
+        { deviceId: "fake", scriptId: "twist", axes: { R0: "L0" } },
+        { deviceId: "other", scriptId: "twist" },
+      ]);
+
+      expect(device.prepared[0].actions).toEqual(twist.axes![0].actions);
+      expect(device.prepared[0].axes).toBeUndefined();
+      expect(other.prepared[0].actions).toEqual(twist.actions);
+      expect(other.prepared[0].axes).toEqual(twist.axes);
+    });
+
+    it("applies the transforms of a route to its device only", async () => {
+      await manager.setRoutes([
+        { deviceId: "fake", transforms: [{ name: "invert" }] },
+      ]);
+
+      expect(device.prepared[0].actions).toEqual([
+        { at: 0, pos: 100 },
+        { at: 10000, pos: 0 },
+      ]);
+      expect(other.prepared[0].actions).toEqual(script.actions);
+    });
+
+    it("rejects routes with an unknown transform", async () => {
+      await expect(
+        manager.setRoutes([
+          { deviceId: "fake", transforms: [{ name: "unknown" }] },
+        ])
+      ).rejects.toThrow('unknown transform "unknown"');
+      expect(manager.getRoutes()).toEqual([]);
+    });
+
+    it("re-prepares and re-plays the devices during playback", async () => {
+      await manager.playAll(1000);
+      jest.setSystemTime(500);
+      device.prepared = [];
+
+      await manager.setRoutes([
+        { deviceId: "fake", transforms: [{ name: "invert" }] },
+        { deviceId: "other", axes: {} },
+      ]);
+
+      expect(device.prepared).toHaveLength(1);
+      expect(device.plays[1]).toMatchObject({ timeMs: 1500 });
+      expect(device.isPlaying).toBe(true);
+      // Left without axes to play: stopped and not started again
+      expect(other.prepared).toEqual([]);
+      expect(other.plays).toHaveLength(1);
+      expect(other.isPlaying).toBe(false);
+    });
+  });
+});
@@ -6,13 +6,158 @@
  */
 import { EventEmitter } from "./events";
 import {
+  DeviceCapability,
+  DeviceScriptLoadResult,
   HapticDevice,
   ScriptData,
   ScriptOptions,
   ScriptLoadResult,
   Funscript,
+  ScriptChapter,
+  ScriptTransform,
 } from "./device-interface";
-import { loadScript } from "./script-loader";
+import { SCRIPT_LOAD_ABORTED, loadScript } from "./script-loader";
+import {
+  PRIMARY_AXIS,
+  getAxisActions,
+  getFunscriptAxisIds,
+  resolveAxisId,
+  selectFunscriptAxes,
+  setAxisActions,
+} from "./funscript-axes";
+import { getChapterAt } from "./funscript-metadata";
+import {
+  FunscriptSimplifyReport,
+  simplifyFunscript,
+} from "./script-simplifier";
+import { ScriptCache } from "./script-cache";
+import {
+  ScriptLoopOptions,
+  getLoopTime,
+  resolveScriptLoop,
+} from "./script-loop";
+import {
+  applyScriptTransforms,
+  getScriptTransform,
+  limitFunscriptSpeed,
+} from "./script-transforms";
+
+/**
+ * Device Manager options
+ */
+export interface DeviceManagerOptions {
+  scriptCache?: ScriptCache; // Cache of parsed scripts, reused across loads
+}
+
+/**
+ * Payload of the "chapterChanged" event
+ */
+export interface ChapterChangedEvent {
+  chapter: ScriptChapter | null; // Chapter entered, null when leaving chapters
+  previous: ScriptChapter | null;
+  timeMs: number; // Playback time of the change
+}
+
+/**
+ * Playback commands sent to all devices
+ */
+export type DeviceCommand = "play" | "pause" | "resume" | "stop" | "syncTime";
+
+/**
+ * Result of a playback command on one device
+ */
+export interface DeviceCommandResult {
+  success: boolean;
+  latencyMs: number; // Time the device took to handle the command
+  compensationMs: number; // Lead given to the time sent, for the device's expected latency
+}
+
+/**
+ * Payload of the "deviceCommands" event
+ */
+export interface DeviceCommandsEvent {
+  command: DeviceCommand;
+  results: Record<string, DeviceCommandResult>; // By device id
+}
+
+/**
+ * A section of the script repeated during playback
+ */
+export interface LoopRange {
+  startMs: number; // Loop start in script time
+  endMs: number; // Loop end in script time
+  repeat?: number; // Passes through the range, including the first (default: infinite)
+  crossfadeMs?: number; // Blend the end of each pass into the loop start
+}
+
+/**
+ * Payload of the "loopIteration" event
+ */
+export interface LoopIterationEvent {
+  iteration: number; // Pass through the loop range that started, the first is 0
+  remaining: number | null; // Passes left after this one, null when infinite
+  timeMs: number; // Script time of the change
+}
+
+/**
+ * A loaded script (or some of its axes) sent to one device
+ */
+export interface ScriptRoute {
+  deviceId: string;
+  scriptId?: string; // Script loaded with this id (default MAIN_SCRIPT_ID)
+  axes?: Record<string, string>; // Script axis -> device axis, e.g. { L0: "V0" } (default: all axes as they are)
+  transforms?: ScriptTransform[]; // Applied for this device only, before picking the axes
+}
+
+/**
+ * A script loaded through loadScript
+ */
+interface LoadedScript {
+  funscript: Funscript;
+  options: ScriptOptions | null; // Without the per-load signal and callback
+}
+
+/**
+ * Playback position last set through playAll/syncTimeAll
+ */
+interface PlaybackClock {
+  timeMs: number; // Time given to playAll/syncTimeAll at `startedAt`
+  startedAt: number; // Wall clock time (Date.now())
+  playbackRate: number;
+  loop: boolean | ScriptLoopOptions; // Loop given to playAll
+}
+
+/**
+ * A time given to playAll/syncTimeAll mapped through the loop range
+ */
+interface LoopRangeTime {
+  timeMs: number; // Script time
+  iteration: number; // Pass through the loop range, `repeat` once all are done
+  looping: boolean; // Whether devices should loop the range at this time
+}
+
+// Id of the script loaded without a scriptId option, which devices without
+// routes play and chapters and loops are read from
+export const MAIN_SCRIPT_ID = "main";
+
+// How often the playback clock is checked for chapter and loop changes
+const PLAYBACK_CHECK_INTERVAL_MS = 250;
+
+// Weight of a new sample in a device's latency estimate
+const LATENCY_SMOOTHING = 0.3;
+
+// Commands taking longer (e.g. a script upload before playing) aren't
+// latency samples
+const MAX_LATENCY_SAMPLE_MS = 2000;
+
+// What each command does, for error messages
+const DEVICE_COMMAND_ACTIONS: Record<DeviceCommand, string> = {
+  play: "playing on",
+  pause: "pausing",
+  resume: "resuming",
+  stop: "stopping",
+  syncTime: "syncing time on",
+};
 
 /**
  * Device Manager class
@@ -20,8 +165,29 @@ import { loadScript } from "./script-loader";
  */
 export class DeviceManager extends EventEmitter {
   private devices: Map<string, HapticDevice> = new Map();
-  private currentFunscript: Funscript | null = null;
-  private currentScriptOptions: ScriptOptions | null = null;
+  private scripts: Map<string, LoadedScript> = new Map();
+  private routes: ScriptRoute[] = [];
+  private scriptLoadControllers: Map<string, AbortController> = new Map();
+  private scriptCache: ScriptCache | null;
+  private chapters: ScriptChapter[] = [];
+  private currentChapter: ScriptChapter | null = null;
+  private playbackClock: PlaybackClock | null = null;
+  private pausedClock: PlaybackClock | null = null; // Clock at pauseAll
+  // Devices without pause and resume that pauseAll stopped instead
+  private stoppedForPause: Set<string> = new Set();
+  private playbackTimer: ReturnType<typeof setInterval> | null = null;
+  private loopRange: LoopRange | null = null;
+  private loopOffsetMs: number = 0; // Clock time minus unlooped script time
+  private loopIteration: number = 0;
+  private devicesLoopRange: boolean = false; // Devices are looping the range
+  private deviceLatencies: Map<string, number> = new Map(); // Estimates in ms
+  // Offsets of devices without an offset setting, applied by the manager
+  private deviceOffsets: Map<string, number> = new Map();
+
+  constructor(options: DeviceManagerOptions = {}) {
+    super();
+    this.scriptCache = options.scriptCache ?? null;
+  }
 
   /**
    * Register a device with the manager
@@ -36,19 +202,14 @@ export class DeviceManager extends EventEmitter {
     this.setupDeviceEventForwarding(device);
     this.emit("deviceAdded", device);
 
-    // If we have a script loaded, prepare it on the new device
-    if (this.currentFunscript) {
-      device
-        .prepareScript(
-          this.currentFunscript,
-          this.currentScriptOptions ?? undefined
-        )
-        .catch((error) => {
-          console.error(
-            `Error preparing script on newly registered device ${device.id}:`,
-            error
-          );
-        });
+    // If scripts routed to the device are loaded, prepare them on it
+    if (this.hasRoutedScript(device)) {
+      this.prepareDevice(device).catch((error) => {
+        console.error(
+          `Error preparing script on newly registered device ${device.id}:`,
+          error
+        );
+      });
     }
   }
 
@@ -60,6 +221,8 @@ export class DeviceManager extends EventEmitter {
     const device = this.devices.get(deviceId);
     if (device) {
       this.devices.delete(deviceId);
+      this.deviceLatencies.delete(deviceId);
+      this.deviceOffsets.delete(deviceId);
       this.emit("deviceRemoved", device);
     }
   }
@@ -79,11 +242,243 @@ export class DeviceManager extends EventEmitter {
     return this.devices.get(deviceId);
   }
 
+  /**
+   * Get the script cache, if one was configured
+   */
+  getScriptCache(): ScriptCache | null {
+    return this.scriptCache;
+  }
+
   /**
    * Get the currently loaded funscript
    */
   getCurrentFunscript(): Funscript | null {
-    return this.currentFunscript;
+    return this.getScript(MAIN_SCRIPT_ID);
+  }
+
+  /**
+   * Get a loaded script by the id it was loaded with
+   * @param scriptId Script id (see ScriptOptions.scriptId)
+   */
+  getScript(scriptId: string): Funscript | null {
+    return this.scripts.get(scriptId)?.funscript ?? null;
+  }
+
+  /**
+   * Get the routing table
+   */
+  getRoutes(): ScriptRoute[] {
+    return this.routes;
+  }
+
+  /**
+   * Set the routing table, which decides the scripts each device plays.
+   * A device with routes plays the axes they pick from their scripts,
+   * merged into one script; a device without routes plays the main script.
+   * Give a device a route with no axes (`axes: {}`) to leave it idle.
+   *
+   * Loaded scripts are prepared again on the connected devices, devices left
+   * without a script are stopped, and the others are re-played if playback
+   * is running.
+   * @param routes The routes, replacing the current ones
+   * @returns Preparation result for each device with a routed script
+   * @throws Error if a route has no device id or uses an unknown transform
+   */
+  async setRoutes(
+    routes: ScriptRoute[]
+  ): Promise<Record<string, DeviceScriptLoadResult>> {
+    for (const route of routes) {
+      const unknown = route.transforms?.find(
+        (transform) => !getScriptTransform(transform.name)
+      );
+
+      if (!route.deviceId || unknown) {
+        throw new Error(
+          `Invalid script route for device "${route.deviceId}"` +
+            (unknown ? `: unknown transform "${unknown.name}"` : "")
+        );
+      }
+    }
+
+    this.routes = routes.map((route) => ({ ...route }));
+
+    const results: Record<string, DeviceScriptLoadResult> = {};
+    for (const [id, device] of this.devices.entries()) {
+      if (this.hasRoutedScript(device)) {
+        results[id] = await this.prepareDevice(device);
+      } else if (device.isPlaying) {
+        await device.stop().catch((error) => {
+          console.error(`Error stopping device ${id}:`, error);
+        });
+      }
+    }
+
+    const clock = this.playbackClock;
+    if (clock) {
+      await this.playAll(
+        this.getClockTime(clock),
+        clock.playbackRate,
+        clock.loop
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the chapters of the current script, sorted by start time
+   */
+  getChapters(): ScriptChapter[] {
+    return this.chapters;
+  }
+
+  /**
+   * Get the chapter at the current playback position
+   */
+  getCurrentChapter(): ScriptChapter | null {
+    return this.currentChapter;
+  }
+
+  /**
+   * Get the current playback position, from the time given to playAll or
+   * syncTimeAll and the playback rate, mapped through the loop range
+   * @returns Script time in milliseconds, or null when not playing
+   */
+  getPlaybackTime(): number | null {
+    const clock = this.playbackClock;
+    if (!clock) {
+      return null;
+    }
+
+    const { timeMs } = this.mapLoopRangeTime(this.getClockTime(clock));
+    const funscript = this.getCurrentFunscript();
+    const loop = funscript ? resolveScriptLoop(funscript, clock.loop) : null;
+
+    return loop ? getLoopTime(timeMs, loop) : timeMs;
+  }
+
+  /**
+   * Get the estimated command latency of a device, measured from its
+   * playback commands
+   * @returns Latency in milliseconds, null before the first command
+   */
+  getDeviceLatency(deviceId: string): number | null {
+    return this.deviceLatencies.get(deviceId) ?? null;
+  }
+
+  /**
+   * Get a device's timing offset
+   * @returns Offset in milliseconds (0 for unknown devices)
+   */
+  getDeviceOffset(deviceId: string): number {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return 0;
+    }
+
+    const offset = device.getConfig().offset;
+    return typeof offset === "number"
+      ? offset
+      : this.deviceOffsets.get(deviceId) ?? 0;
+  }
+
+  /**
+   * Set a device's timing offset, added to the playback time it plays.
+   * Devices with an `offset` setting (Handy, Autoblow, Buttplug) store it in
+   * their settings and apply it, natively where the hardware supports it;
+   * for other devices the manager shifts the times it sends. The offset
+   * takes effect immediately, also during playback.
+   * @param deviceId Device to set the offset for
+   * @param offsetMs Offset in milliseconds
+   * @returns Whether the offset was applied
+   */
+  async setDeviceOffset(deviceId: string, offsetMs: number): Promise<boolean> {
+    const device = this.devices.get(deviceId);
+    if (!device || !isFinite(offsetMs)) {
+      return false;
+    }
+
+    try {
+      if (typeof device.getConfig().offset === "number") {
+        return await device.updateConfig({ offset: offsetMs });
+      }
+
+      this.deviceOffsets.set(deviceId, offsetMs);
+
+      // Move a playing device to its new offset right away
+      const clock = this.playbackClock;
+      if (clock && device.isConnected && device.isPlaying) {
+        const { timeMs } = this.mapLoopRangeTime(this.getClockTime(clock));
+        const results = await this.syncDevices(timeMs, undefined, deviceId);
+        return results[deviceId];
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error setting offset on device ${deviceId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the loop range, if one is set
+   */
+  getLoopRange(): LoopRange | null {
+    return this.loopRange;
+  }
+
+  /**
+   * Get the current pass through the loop range (0 for the first)
+   */
+  getLoopIteration(): number {
+    return this.loopIteration;
+  }
+
+  /**
+   * Repeat a section of the script. Times given to playAll and syncTimeAll
+   * keep running while the range repeats: each pass is inserted into the
+   * timeline, and once all passes are done playback continues after the
+   * range. Devices loop the range themselves between syncs (see
+   * HapticDevice.play), "loopIteration" is emitted when a pass starts.
+   *
+   * Setting a range while playing past its end jumps back to its start.
+   * @param range Loop range in script time, null to stop looping
+   * @returns Success for each device re-played, empty when not playing
+   */
+  async setLoopRange(
+    range: LoopRange | null
+  ): Promise<Record<string, boolean>> {
+    if (
+      range &&
+      (!(range.startMs >= 0) ||
+        !(range.endMs > range.startMs) ||
+        (range.repeat !== undefined && !(range.repeat >= 1)))
+    ) {
+      throw new Error(
+        `Invalid loop range: ${range.startMs}-${range.endMs}` +
+          (range.repeat !== undefined ? ` x${range.repeat}` : "")
+      );
+    }
+
+    const clock = this.playbackClock;
+    const clockTime = clock ? this.getClockTime(clock) : 0;
+    const { timeMs } = this.mapLoopRangeTime(clockTime);
+
+    // Keep the script position: the new range starts counting from here
+    this.loopRange = range ? { ...range } : null;
+    this.loopOffsetMs = !clock
+      ? 0
+      : range && timeMs >= range.endMs
+      ? clockTime - range.startMs
+      : clockTime - timeMs;
+    this.loopIteration = this.mapLoopRangeTime(clockTime).iteration;
+
+    if (!clock) {
+      this.updatePlaybackTracking();
+      return {};
+    }
+
+    return this.playAll(clockTime, clock.playbackRate, clock.loop);
   }
 
   /**
@@ -128,63 +523,356 @@ export class DeviceManager extends EventEmitter {
    * Load a script - fetches, parses, and prepares on all connected devices
    *
    * This is the main entry point for loading scripts. It:
-   * 1. Fetches and parses the script (once, centrally)
+   * 1. Fetches and parses the script and its additional axes (once, centrally)
    * 2. Applies any transformations (inversion, sorting)
-   * 3. Distributes to all connected devices
+   * 3. Distributes to all connected devices it is routed to (each gets the
+   *    axes it supports, within its speed limit)
    * 4. Returns the funscript along with per-device results
    *
+   * Scripts are kept by `options.scriptId`: loading another id adds a script
+   * for the routes (see setRoutes) next to the main one. Starting a new load
+   * aborts the one in progress for the same id, so a stale load never
+   * replaces a newer script. Progress is emitted as "scriptLoadProgress".
+   *
    * @param scriptData Script data to load (URL or content)
-   * @param options Options for script loading (e.g., invertScript)
+   * @param options Options for script loading (e.g., invertScript, signal)
    * @returns ScriptLoadResult with funscript and per-device status
    */
   async loadScript(
     scriptData: ScriptData,
     options?: ScriptOptions
   ): Promise<ScriptLoadResult> {
+    // A newer load always wins over the one in progress
+    const scriptId = options?.scriptId ?? MAIN_SCRIPT_ID;
+    this.scriptLoadControllers.get(scriptId)?.abort();
+    const controller = new AbortController();
+    this.scriptLoadControllers.set(scriptId, controller);
+
+    const abortFromCaller = () => controller.abort();
+    if (options?.signal?.aborted) {
+      controller.abort();
+    }
+    options?.signal?.addEventListener("abort", abortFromCaller);
+
+    const loadOptions: ScriptOptions = {
+      ...options,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        options?.onProgress?.(progress);
+        this.emit("scriptLoadProgress", progress);
+      },
+    };
+
+    try {
+      return await this.loadScriptWithOptions(
+        scriptId,
+        scriptData,
+        options,
+        loadOptions
+      );
+    } finally {
+      options?.signal?.removeEventListener("abort", abortFromCaller);
+      if (this.scriptLoadControllers.get(scriptId) === controller) {
+        this.scriptLoadControllers.delete(scriptId);
+      }
+    }
+  }
+
+  /**
+   * Abort the script loads in progress, if any
+   * @param scriptId Only abort the load of this script
+   */
+  abortScriptLoad(scriptId?: string): void {
+    for (const [id, controller] of this.scriptLoadControllers.entries()) {
+      if (scriptId === undefined || id === scriptId) {
+        controller.abort();
+      }
+    }
+  }
+
+  /**
+   * Start playback on all connected devices. Devices are started in
+   * parallel, each at the time plus its expected command latency, so they
+   * all begin at the same media time.
+   * @param timeMs Current time in milliseconds, mapped through the loop
+   *   range if one is set
+   * @param playbackRate Playback rate (1.0 = normal speed)
+   * @param loop Loop the whole script (true) or a range (see
+   *   HapticDevice.play), after the passes of the loop range
+   * @returns Success for each device, timing is emitted as "deviceCommands"
+   */
+  async playAll(
+    timeMs: number,
+    playbackRate: number = 1.0,
+    loop: boolean | ScriptLoopOptions = false
+  ): Promise<Record<string, boolean>> {
+    const results = await this.playAllDetailed(timeMs, playbackRate, loop);
+    return getCommandSuccess(results);
+  }
+
+  /**
+   * Start playback on all connected devices, like playAll
+   * @returns Success, command latency and latency compensation for each
+   *   device
+   */
+  async playAllDetailed(
+    timeMs: number,
+    playbackRate: number = 1.0,
+    loop: boolean | ScriptLoopOptions = false
+  ): Promise<Record<string, DeviceCommandResult>> {
+    const startedAt = Date.now();
+    const rangeTime = this.mapLoopRangeTime(timeMs);
+    const results = await this.playDevices(
+      rangeTime.timeMs,
+      playbackRate,
+      rangeTime.looping ? this.getRangeLoopOptions() : loop
+    );
+
+    this.loopIteration = rangeTime.iteration;
+    this.devicesLoopRange = rangeTime.looping;
+    this.pausedClock = null;
+    this.stoppedForPause.clear();
+    this.setPlaybackClock({ timeMs, startedAt, playbackRate, loop });
+
+    return results;
+  }
+
+  /**
+   * Pause playback on all playing devices, in parallel. Devices keep their
+   * position (natively where they can), so resumeAll continues from it.
+   * Devices without pause and resume are stopped, and played again by
+   * resumeAll.
+   * @returns Success for each device, timing is emitted as "deviceCommands"
+   */
+  async pauseAll(): Promise<Record<string, boolean>> {
+    const clock = this.playbackClock;
+    const pausedTimeMs = clock ? this.getClockTime(clock) : 0;
+    this.stoppedForPause.clear();
+
+    const results = await this.runDeviceCommands(
+      "pause",
+      (device) => device.isConnected && device.isPlaying,
+      (device) => {
+        if (device.pause && device.resume) {
+          return device.pause();
+        }
+        this.stoppedForPause.add(device.id);
+        return device.stop();
+      },
+      false
+    );
+
+    if (clock) {
+      this.pausedClock = { ...clock, timeMs: pausedTimeMs };
+    }
+    this.setPlaybackClock(null);
+
+    return results;
+  }
+
+  /**
+   * Resume playback on all paused devices, in parallel. With a time, devices
+   * resume there (mapped through the loop range and compensated for their
+   * expected latency), otherwise where they were paused. Devices pauseAll
+   * stopped are played again at that time.
+   * @param timeMs Current time in milliseconds (default: the paused time)
+   * @returns Success for each device, timing is emitted as "deviceCommands"
+   */
+  async resumeAll(
+    timeMs?: number
+  ): Promise<Record<string, boolean>> {
+    const startedAt = Date.now();
+    const paused = this.pausedClock;
+    const clockTime = timeMs ?? paused?.timeMs;
+    const rangeTime =
+      clockTime !== undefined ? this.mapLoopRangeTime(clockTime) : null;
+    const playbackRate = paused?.playbackRate ?? 1.0;
+    const loop = rangeTime?.looping
+      ? this.getRangeLoopOptions()
+      : paused?.loop ?? false;
+    const stopped = this.stoppedForPause;
+    this.stoppedForPause = new Set();
+
+    const results = await this.runDeviceCommands(
+      "resume",
+      (device) =>
+        device.isConnected &&
+        (stopped.has(device.id)
+          ? rangeTime !== null
+          : !!device.isPaused && !!device.resume),
+      (device, compensationMs) => {
+        const deviceTimeMs =
+          rangeTime !== null
+            ? rangeTime.timeMs +
+              this.getTimeShift(device) +
+              compensationMs * playbackRate
+            : undefined;
+
+        if (!stopped.has(device.id) && device.resume) {
+          return device.resume(deviceTimeMs);
+        }
+        return device.play(deviceTimeMs ?? 0, playbackRate, loop);
+      }
+    );
+
+    this.pausedClock = null;
+    if (paused && clockTime !== undefined) {
+      this.setPlaybackClock({ ...paused, timeMs: clockTime, startedAt });
+    }
+
+    return results;
+  }
+
+  /**
+   * Stop playback on all connected devices, in parallel, including paused
+   * ones
+   * @returns Success for each device, timing is emitted as "deviceCommands"
+   */
+  async stopAll(): Promise<Record<string, boolean>> {
+    const results = await this.runDeviceCommands(
+      "stop",
+      (device) => device.isConnected,
+      (device) => device.stop(),
+      false
+    );
+
+    this.pausedClock = null;
+    this.stoppedForPause.clear();
+    this.setPlaybackClock(null);
+
+    return results;
+  }
+
+  /**
+   * Synchronize time on all connected and playing devices, in parallel and
+   * compensated for each device's expected command latency
+   * @param timeMs Current time in milliseconds, mapped through the loop
+   *   range if one is set
+   * @param filter Time filter for synchronization
+   * @returns Success for each device, timing is emitted as "deviceCommands"
+   */
+  async syncTimeAll(
+    timeMs: number,
+    filter: number = 0.5
+  ): Promise<Record<string, boolean>> {
+    const startedAt = Date.now();
+    const results = await this.syncDevices(
+      this.mapLoopRangeTime(timeMs).timeMs,
+      filter
+    );
+
+    if (this.playbackClock) {
+      this.setPlaybackClock({ ...this.playbackClock, timeMs, startedAt });
+    }
+
+    return results;
+  }
+
+  /**
+   * Clear the loaded scripts
+   * @param scriptId Only clear this script
+   */
+  clearScript(scriptId?: string): void {
+    if (scriptId === undefined) {
+      this.scripts.clear();
+    } else {
+      this.scripts.delete(scriptId);
+    }
+
+    if (scriptId === undefined || scriptId === MAIN_SCRIPT_ID) {
+      this.chapters = [];
+      this.clearLoopRange();
+      this.updatePlaybackTracking();
+    }
+  }
+
+  /**
+   * Check whether a device can play anything from a funscript: an axis it
+   * supports, or rotation on a rotating device (e.g. Vorze scripts)
+   * @param device Target device
+   * @param funscript Funscript routed to the device
+   */
+  private canPlayScript(device: HapticDevice, funscript: Funscript): boolean {
+    const supportedAxes = device.supportedAxes ?? [PRIMARY_AXIS];
+
+    return (
+      getFunscriptAxisIds(funscript).some((id) => supportedAxes.includes(id)) ||
+      (!!funscript.rotation?.length &&
+        device.capabilities.includes(DeviceCapability.ROTATE))
+    );
+  }
+
+  /**
+   * Load a script with the manager's abort signal and progress reporting
+   * @param scriptId Id the script is kept and routed by
+   * @param scriptData Script data to load
+   * @param options Options as given by the caller
+   * @param loadOptions Options with the load's signal and progress callback
+   */
+  private async loadScriptWithOptions(
+    scriptId: string,
+    scriptData: ScriptData,
+    options: ScriptOptions | undefined,
+    loadOptions: ScriptOptions
+  ): Promise<ScriptLoadResult> {
+    const signal = loadOptions.signal!;
+
     // Step 1: Fetch and parse the script centrally
-    const loadResult = await loadScript(scriptData, options);
+    const loadResult = await loadScript(
+      scriptData,
+      loadOptions,
+      this.scriptCache ?? undefined
+    );
+
+    if (signal.aborted) {
+      return this.getAbortedLoadResult();
+    }
 
     if (!loadResult.success || !loadResult.funscript) {
       return {
         success: false,
         funscript: null,
         error: loadResult.error,
+        diagnostics: loadResult.diagnostics,
         devices: {},
       };
     }
 
-    // Store the loaded script
-    this.currentFunscript = loadResult.funscript;
-    this.currentScriptOptions = options ?? null;
+    // Store the loaded script - without the per-load signal and callback,
+    // the options are reused when devices register later
+    this.scripts.set(scriptId, {
+      funscript: loadResult.funscript,
+      options: options
+        ? { ...options, signal: undefined, onProgress: undefined }
+        : null,
+    });
+    if (scriptId === MAIN_SCRIPT_ID) {
+      this.chapters = loadResult.chapters ?? [];
+      this.clearLoopRange();
+      this.updatePlaybackTracking();
+    }
 
-    // Step 2: Prepare on all connected devices
-    const deviceResults: Record<string, { success: boolean; error?: string }> =
-      {};
+    // Step 2: Prepare on the devices the script is routed to
+    const deviceResults: Record<string, DeviceScriptLoadResult> = {};
 
     for (const [id, device] of this.devices.entries()) {
-      // Only prepare on connected devices (or buttplug which manages its own connection)
-      if (device.isConnected || device.id === "buttplug") {
-        try {
-          const result = await device.prepareScript(
-            loadResult.funscript,
-            options
-          );
-          deviceResults[id] = result;
-        } catch (error) {
-          console.error(`Error preparing script on device ${id}:`, error);
-          deviceResults[id] = {
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-          };
-        }
-      } else {
-        deviceResults[id] = {
-          success: false,
-          error: "Device not connected",
-        };
+      if (signal.aborted) {
+        return this.getAbortedLoadResult(deviceResults);
+      }
+
+      const routes = this.getDeviceRoutes(device);
+      if (
+        routes.some((route) => route.scriptId === scriptId) &&
+        this.hasRoutedScript(device)
+      ) {
+        deviceResults[id] = await this.prepareDevice(device, loadOptions);
       }
     }
 
+    if (signal.aborted) {
+      return this.getAbortedLoadResult(deviceResults);
+    }
+
     // Emit event
     this.emit("scriptLoaded", {
       funscript: loadResult.funscript,
@@ -194,97 +882,506 @@ export class DeviceManager extends EventEmitter {
     return {
       success: true,
       funscript: loadResult.funscript,
+      format: loadResult.format,
+      bundle: loadResult.bundle,
+      axes: loadResult.axes,
+      chapters: loadResult.chapters,
+      bookmarks: loadResult.bookmarks,
+      simplification: loadResult.simplification,
+      stats: loadResult.stats,
+      diagnostics: loadResult.diagnostics,
       devices: deviceResults,
     };
   }
 
   /**
-   * Start playback on all connected devices
-   * @param timeMs Current time in milliseconds
-   * @param playbackRate Playback rate (1.0 = normal speed)
-   * @param loop Whether to loop the script
-   * @returns Object with success status for each device
+   * Result of a load that was aborted or replaced by a newer one
    */
-  async playAll(
-    timeMs: number,
-    playbackRate: number = 1.0,
-    loop: boolean = false
-  ): Promise<Record<string, boolean>> {
-    const results: Record<string, boolean> = {};
+  private getAbortedLoadResult(
+    devices: ScriptLoadResult["devices"] = {}
+  ): ScriptLoadResult {
+    return {
+      success: false,
+      funscript: null,
+      error: SCRIPT_LOAD_ABORTED,
+      devices,
+    };
+  }
 
-    for (const [id, device] of this.devices.entries()) {
-      if (device.isConnected) {
-        try {
-          results[id] = await device.play(timeMs, playbackRate, loop);
-        } catch (error) {
-          console.error(`Error playing on device ${id}:`, error);
-          results[id] = false;
-        }
-      } else {
-        results[id] = false;
+  /**
+   * Prepare the scripts routed to a device on it
+   * @param device Target device
+   * @param loadOptions Signal and progress callback of the load, if any
+   */
+  private async prepareDevice(
+    device: HapticDevice,
+    loadOptions?: ScriptOptions
+  ): Promise<DeviceScriptLoadResult> {
+    // Only prepare on connected devices (or buttplug which manages its own connection)
+    if (!device.isConnected && device.id !== "buttplug") {
+      return { success: false, error: "Device not connected" };
+    }
+
+    try {
+      const routed = this.getRoutedFunscript(device);
+      if (!routed || !this.canPlayScript(device, routed.funscript)) {
+        return {
+          success: false,
+          error: "Script has no actions this device can play",
+        };
       }
+
+      loadOptions?.onProgress?.({ stage: "preparing", deviceId: device.id });
+      const { funscript, simplification } = this.getDeviceFunscript(
+        device,
+        routed.funscript,
+        routed.options
+      );
+      const result = await device.prepareScript(funscript, {
+        ...routed.options,
+        signal: loadOptions?.signal,
+        onProgress: loadOptions?.onProgress,
+      });
+
+      return simplification ? { ...result, simplification } : result;
+    } catch (error) {
+      console.error(`Error preparing script on device ${device.id}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
+  }
 
-    return results;
+  /**
+   * Get the routes of a device, with the script ids filled in. A device
+   * without routes plays the main script.
+   */
+  private getDeviceRoutes(
+    device: HapticDevice
+  ): (ScriptRoute & { scriptId: string })[] {
+    const routes = this.routes.filter((route) => route.deviceId === device.id);
+
+    return (routes.length > 0 ? routes : [{ deviceId: device.id }]).map(
+      (route) => ({ ...route, scriptId: route.scriptId ?? MAIN_SCRIPT_ID })
+    );
   }
 
   /**
-   * Stop playback on all connected devices
-   * @returns Object with success status for each device
+   * Whether a script routed to a device is loaded, with axes to play
    */
-  async stopAll(): Promise<Record<string, boolean>> {
-    const results: Record<string, boolean> = {};
+  private hasRoutedScript(device: HapticDevice): boolean {
+    return this.getDeviceRoutes(device).some(
+      (route) =>
+        this.scripts.has(route.scriptId) &&
+        (!route.axes || Object.keys(route.axes).length > 0)
+    );
+  }
 
-    for (const [id, device] of this.devices.entries()) {
-      if (device.isConnected) {
-        try {
-          results[id] = await device.stop();
-        } catch (error) {
-          console.error(`Error stopping device ${id}:`, error);
-          results[id] = false;
+  /**
+   * Merge the loaded scripts routed to a device into the script it plays,
+   * with the options of the first one (for its limits)
+   * @returns The script, or null when none of its scripts are loaded
+   * @throws Error if a route uses a transform that is not registered
+   */
+  private getRoutedFunscript(
+    device: HapticDevice
+  ): { funscript: Funscript; options?: ScriptOptions } | null {
+    let result: Funscript | null = null;
+    let options: ScriptOptions | undefined;
+
+    for (const route of this.getDeviceRoutes(device)) {
+      const script = this.scripts.get(route.scriptId);
+      if (!script) {
+        continue;
+      }
+
+      const source = route.transforms?.length
+        ? applyScriptTransforms(script.funscript, route.transforms)
+        : script.funscript;
+
+      if (!result) {
+        // Keep the metadata of the first script, without its tracks
+        const { axes, rotation, ...rest } = source;
+        result = { ...rest, actions: [] };
+        options = script.options ?? undefined;
+      }
+
+      if (!route.axes) {
+        for (const id of getFunscriptAxisIds(source)) {
+          result = setAxisActions(result, id, getAxisActions(source, id)!);
+        }
+        if (source.rotation) {
+          result = { ...result, rotation: source.rotation };
+        }
+        continue;
+      }
+
+      for (const [from, to] of Object.entries(route.axes)) {
+        const actions = getAxisActions(source, resolveAxisId(from) ?? from);
+        if (actions?.length) {
+          result = setAxisActions(result, resolveAxisId(to) ?? to, actions);
         }
-      } else {
-        results[id] = false;
       }
     }
 
-    return results;
+    return result ? { funscript: result, options } : null;
   }
 
   /**
-   * Synchronize time on all connected and playing devices
-   * @param timeMs Current time in milliseconds
+   * Get the funscript to prepare on a device: limited to the axes it supports
+   * and, unless disabled, to its point limits and maximum speed
+   * @param device Target device
+   * @param funscript Loaded funscript
+   * @param options Script options
+   * @returns The funscript, with the error of point reduction if it was needed
+   */
+  private getDeviceFunscript(
+    device: HapticDevice,
+    funscript: Funscript,
+    options?: ScriptOptions
+  ): { funscript: Funscript; simplification?: FunscriptSimplifyReport } {
+    let result = selectFunscriptAxes(
+      funscript,
+      device.supportedAxes ?? [PRIMARY_AXIS]
+    );
+    let simplification: FunscriptSimplifyReport | undefined;
+
+    const { maxPoints, minIntervalMs } = device.scriptLimits ?? {};
+    if ((maxPoints || minIntervalMs) && options?.limitPoints !== false) {
+      const simplified = simplifyFunscript(result, {
+        maxPoints,
+        minSpacingMs: minIntervalMs,
+      });
+
+      if (simplified.report.count < simplified.report.originalCount) {
+        result = simplified.funscript;
+        simplification = simplified.report;
+      }
+    }
+
+    const maxSpeed = device.scriptLimits?.maxSpeed;
+    if (maxSpeed && options?.limitSpeed !== false) {
+      result = limitFunscriptSpeed(result, maxSpeed);
+    }
+
+    return { funscript: result, simplification };
+  }
+
+  /**
+   * Start playback on all connected devices with a routed script loaded, at
+   * a script time
+   */
+  private playDevices(
+    timeMs: number,
+    playbackRate: number,
+    loop: boolean | ScriptLoopOptions
+  ): Promise<Record<string, DeviceCommandResult>> {
+    return this.runDetailedDeviceCommands(
+      "play",
+      (device) => device.isConnected && this.hasRoutedScript(device),
+      (device, compensationMs) =>
+        device.play(
+          timeMs + this.getTimeShift(device) + compensationMs * playbackRate,
+          playbackRate,
+          loop
+        )
+    );
+  }
+
+  /**
+   * Synchronize time on the connected and playing devices, compensated for
+   * their expected command latency
+   * @param timeMs Script time in milliseconds
    * @param filter Time filter for synchronization
-   * @returns Object with success status for each device
+   * @param deviceId Only synchronize this device
    */
-  async syncTimeAll(
+  private syncDevices(
     timeMs: number,
-    filter: number = 0.5
+    filter?: number,
+    deviceId?: string
   ): Promise<Record<string, boolean>> {
-    const results: Record<string, boolean> = {};
+    const playbackRate = this.playbackClock?.playbackRate ?? 1.0;
+
+    return this.runDeviceCommands(
+      "syncTime",
+      (device) => device.isConnected && device.isPlaying,
+      (device, compensationMs) =>
+        device.syncTime(
+          timeMs + this.getTimeShift(device) + compensationMs * playbackRate,
+          filter
+        ),
+      true,
+      deviceId
+    );
+  }
+
+  /**
+   * Offset the manager adds to the times sent to a device: the device's
+   * offset, unless the device applies it itself
+   */
+  private getTimeShift(device: HapticDevice): number {
+    return typeof device.getConfig().offset === "number"
+      ? 0
+      : this.deviceOffsets.get(device.id) ?? 0;
+  }
+
+  /**
+   * Run a command on the devices in parallel, like runDetailedDeviceCommands
+   * @returns Success for each device
+   */
+  private async runDeviceCommands(
+    name: DeviceCommand,
+    include: (device: HapticDevice) => boolean,
+    command: (device: HapticDevice, compensationMs: number) => Promise<boolean>,
+    compensate: boolean = true,
+    deviceId?: string
+  ): Promise<Record<string, boolean>> {
+    const results = await this.runDetailedDeviceCommands(
+      name,
+      include,
+      command,
+      compensate,
+      deviceId
+    );
+    return getCommandSuccess(results);
+  }
+
+  /**
+   * Run a command on the devices in parallel, measuring how long each takes.
+   * The timing is reported with a "deviceCommands" event.
+   * @param name The command, for the event and error messages
+   * @param include Which devices to run the command on (others fail)
+   * @param command The command, given the device's latency compensation
+   * @param compensate Whether to compensate the devices' expected latency
+   * @param deviceId Only run the command on (and report) this device
+   * @returns Success, command latency and latency compensation for each
+   *   device
+   */
+  private async runDetailedDeviceCommands(
+    name: DeviceCommand,
+    include: (device: HapticDevice) => boolean,
+    command: (device: HapticDevice, compensationMs: number) => Promise<boolean>,
+    compensate: boolean = true,
+    deviceId?: string
+  ): Promise<Record<string, DeviceCommandResult>> {
+    const entries = Array.from(this.devices.entries()).filter(
+      ([id]) => deviceId === undefined || id === deviceId
+    );
+    const settled = await Promise.all(
+      entries.map(async ([id, device]): Promise<DeviceCommandResult> => {
+        if (!include(device)) {
+          return { success: false, latencyMs: 0, compensationMs: 0 };
+        }
+
+        const compensationMs =
+          compensate && !device.latencyCompensated
+            ? Math.round(this.deviceLatencies.get(id) ?? 0)
+            : 0;
+        const startedAt = Date.now();
+        let success = false;
 
-    for (const [id, device] of this.devices.entries()) {
-      if (device.isConnected && device.isPlaying) {
         try {
-          results[id] = await device.syncTime(timeMs, filter);
+          success = await command(device, compensationMs);
         } catch (error) {
-          console.error(`Error syncing time on device ${id}:`, error);
-          results[id] = false;
+          console.error(
+            `Error ${DEVICE_COMMAND_ACTIONS[name]} device ${id}:`,
+            error
+          );
         }
-      } else {
-        results[id] = false;
-      }
-    }
+
+        const latencyMs = Date.now() - startedAt;
+        if (success) {
+          this.updateDeviceLatency(id, latencyMs);
+        }
+
+        return { success, latencyMs, compensationMs };
+      })
+    );
+
+    const results: Record<string, DeviceCommandResult> = {};
+    entries.forEach(([id], index) => {
+      results[id] = settled[index];
+    });
+
+    const event: DeviceCommandsEvent = { command: name, results };
+    this.emit("deviceCommands", event);
 
     return results;
   }
 
   /**
-   * Clear the currently loaded script
+   * Add a command duration to a device's latency estimate
    */
-  clearScript(): void {
-    this.currentFunscript = null;
-    this.currentScriptOptions = null;
+  private updateDeviceLatency(deviceId: string, latencyMs: number): void {
+    if (latencyMs > MAX_LATENCY_SAMPLE_MS) {
+      return;
+    }
+
+    const previous = this.deviceLatencies.get(deviceId);
+    this.deviceLatencies.set(
+      deviceId,
+      previous === undefined
+        ? latencyMs
+        : previous + (latencyMs - previous) * LATENCY_SMOOTHING
+    );
+  }
+
+  /**
+   * Get the playback clock's current time, before mapping it to script time
+   */
+  private getClockTime(clock: PlaybackClock): number {
+    return clock.timeMs + (Date.now() - clock.startedAt) * clock.playbackRate;
+  }
+
+  /**
+   * Map a time given to playAll/syncTimeAll to script time: passes through
+   * the loop range repeat its section, later times continue after it
+   */
+  private mapLoopRangeTime(timeMs: number): LoopRangeTime {
+    const range = this.loopRange;
+    const unlooped = timeMs - this.loopOffsetMs;
+    const repeat = range?.repeat ?? Infinity;
+
+    if (!range || unlooped < range.startMs) {
+      return { timeMs: unlooped, iteration: 0, looping: !!range && repeat > 1 };
+    }
+
+    const duration = range.endMs - range.startMs;
+    const iteration = Math.floor((unlooped - range.startMs) / duration);
+
+    if (iteration >= repeat) {
+      return {
+        timeMs: unlooped - (repeat - 1) * duration,
+        iteration: repeat,
+        looping: false,
+      };
+    }
+
+    return {
+      timeMs: range.startMs + ((unlooped - range.startMs) % duration),
+      iteration,
+      looping: iteration < repeat - 1,
+    };
+  }
+
+  /**
+   * Loop options telling devices to loop the range
+   */
+  private getRangeLoopOptions(): ScriptLoopOptions {
+    const range = this.loopRange!;
+    return {
+      startMs: range.startMs,
+      endMs: range.endMs,
+      crossfadeMs: range.crossfadeMs,
+    };
+  }
+
+  /**
+   * Set or clear the playback clock and check the chapter at its new time
+   * @param clock Playback position, null when playback stopped
+   */
+  private setPlaybackClock(clock: PlaybackClock | null): void {
+    this.playbackClock = clock;
+    this.updatePlaybackTracking();
+  }
+
+  /**
+   * Check the current chapter and loop pass now and keep checking while a
+   * script with chapters or a loop range is playing
+   */
+  private updatePlaybackTracking(): void {
+    const tracking =
+      !!this.playbackClock && (this.chapters.length > 0 || !!this.loopRange);
+
+    if (tracking && !this.playbackTimer) {
+      this.playbackTimer = setInterval(() => {
+        this.updateCurrentChapter();
+        this.updateLoopIteration();
+      }, PLAYBACK_CHECK_INTERVAL_MS);
+    } else if (!tracking && this.playbackTimer) {
+      clearInterval(this.playbackTimer);
+      this.playbackTimer = null;
+    }
+
+    this.updateCurrentChapter();
+    this.updateLoopIteration();
+  }
+
+  /**
+   * Emit "loopIteration" when a pass through the loop range starts. When the
+   * last pass starts, devices are re-played without the range loop so they
+   * continue after it (and with it again when synced back into the range).
+   */
+  private updateLoopIteration(): void {
+    const clock = this.playbackClock;
+    if (!clock || !this.loopRange) {
+      return;
+    }
+
+    const rangeTime = this.mapLoopRangeTime(this.getClockTime(clock));
+    if (rangeTime.iteration === this.loopIteration) {
+      return;
+    }
+
+    const repeat = this.loopRange.repeat ?? Infinity;
+    this.loopIteration = rangeTime.iteration;
+
+    if (rangeTime.iteration < repeat) {
+      const event: LoopIterationEvent = {
+        iteration: rangeTime.iteration,
+        remaining: isFinite(repeat) ? repeat - 1 - rangeTime.iteration : null,
+        timeMs: rangeTime.timeMs,
+      };
+      this.emit("loopIteration", event);
+    }
+
+    if (this.devicesLoopRange !== rangeTime.looping) {
+      this.devicesLoopRange = rangeTime.looping;
+      this.playDevices(
+        rangeTime.timeMs,
+        clock.playbackRate,
+        rangeTime.looping ? this.getRangeLoopOptions() : clock.loop
+      ).catch((error) =>
+        console.error("Error updating the loop range:", error)
+      );
+    }
+  }
+
+  /**
+   * Forget the loop range of the previous script
+   */
+  private clearLoopRange(): void {
+    this.loopRange = null;
+    this.loopOffsetMs = 0;
+    this.loopIteration = 0;
+    this.devicesLoopRange = false;
+  }
+
+  /**
+   * Emit "chapterChanged" when playback has moved to another chapter.
+   * While stopped the last chapter is kept, unless the script changed.
+   */
+  private updateCurrentChapter(): void {
+    const timeMs = this.getPlaybackTime();
+    const chapter =
+      timeMs !== null
+        ? getChapterAt(this.chapters, timeMs)
+        : this.chapters.find((c) => c === this.currentChapter) ?? null;
+
+    if (chapter === this.currentChapter) {
+      return;
+    }
+
+    const previous = this.currentChapter;
+    this.currentChapter = chapter;
+
+    const event: ChapterChangedEvent = {
+      chapter,
+      previous,
+      timeMs: timeMs ?? 0,
+    };
+    this.emit("chapterChanged", event);
   }
 
   /**
@@ -310,3 +1407,16 @@ export class DeviceManager extends EventEmitter {
     }
   }
 }
+
+/**
+ * Success of each device in a command's results
+ */
+function getCommandSuccess(
+  results: Record<string, DeviceCommandResult>
+): Record<string, boolean> {
+  const success: Record<string, boolean> = {};
+  for (const [id, result] of Object.entries(results)) {
+    success[id] = result.success;
+  }
+  return success;
+}
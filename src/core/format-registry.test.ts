@@ -0,0 +1,94 @@
+import {
+  getUrlExtension,
+  registerScriptFormat,
+  resolveScriptFormats,
+  unregisterScriptFormat,
+} from "./format-registry";
+import { loadScript, parseScriptText } from "./script-loader";
+
+const CSV = "0,0\n100,100";
+
+const names = (text: string, hints = {}) =>
+  resolveScriptFormats(text, hints).map((format) => format.name);
+
+describe("resolveScriptFormats", () => {
+  it("orders type, Content-Type, extension, then sniffed formats", () => {
+    expect(
+      names(CSV, {
+        type: "funscript",
+        contentType: "text/csv; charset=utf-8",
+        url: "https://example.com/video.kiiroo?token=1",
+      })
+    ).toEqual(["funscript", "csv", "kiiroo"]);
+  });
+
+  it("ignores generic Content-Types", () => {
+    expect(names(CSV, { contentType: "application/octet-stream" })).toEqual([
+      "csv",
+    ]);
+  });
+
+  it("sniffs formats registered later first", () => {
+    registerScriptFormat({
+      name: "custom",
+      sniff: (text) => text.startsWith("0,"),
+      parse: () => ({ actions: [] }),
+    });
+
+    try {
+      expect(names(CSV)).toEqual(["custom", "csv"]);
+    } finally {
+      unregisterScriptFormat("custom");
+    }
+  });
+
+  it("only tries an explicit format", () => {
+    expect(names(CSV, { format: "funscript" })).toEqual(["funscript"]);
+  });
+
+  it("rejects an unknown explicit format", () => {
+    expect(() => resolveScriptFormats(CSV, { format: "bogus" })).toThrow(
+      "Unknown script format: bogus"
+    );
+  });
+});
+
+describe("parseScriptText", () => {
+  it("falls through to the next candidate when parsing fails", () => {
+    const result = parseScriptText(CSV, { url: "video.funscript" });
+
+    expect(result.success).toBe(true);
+    expect(result.format).toBe("csv");
+  });
+
+  it("reports the first parse error when no format fits", () => {
+    const result = parseScriptText("{not json", { format: "funscript" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Failed to parse funscript script/);
+    expect(parseScriptText("hello")).toMatchObject({
+      success: false,
+      error: "Failed to parse script: unrecognized format",
+    });
+  });
+
+  it("fails loadScript with an unknown explicit format", async () => {
+    expect(
+      await loadScript({ type: "funscript", format: "bogus", content: CSV })
+    ).toEqual({
+      success: false,
+      funscript: null,
+      error: "Unknown script format: bogus",
+    });
+  });
+});
+
+describe("getUrlExtension", () => {
+  it("reads the lower-cased extension of the path", () => {
+    expect(getUrlExtension("https://x.com/a.b/Video.FunScript?v=1#t")).toBe(
+      "funscript"
+    );
+    expect(getUrlExtension("https://x.com/script")).toBeNull();
+    expect(getUrlExtension("video.csv")).toBe("csv");
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Script Format Registry
+ *
+ * Pluggable script formats used by loadScript. A format is detected from an
+ * explicit name, the script type, the response Content-Type, the URL
+ * extension or by sniffing the content, so new formats can be added without
+ * changing the loader.
+ */
+
+import { Funscript } from "./device-interface";
+
+/**
+ * A script format
+ */
+export interface ScriptFormat {
+  name: string; // Unique name, usable as ScriptData.format or ScriptData.type
+  extensions?: string[]; // File extensions without the dot (e.g. ["csv"])
+  mimeTypes?: string[]; // Content-Types served for this format (e.g. ["text/csv"])
+  sniff?: (text: string) => boolean; // Cheap content check used when nothing else matches
+  parse: (text: string) => Funscript; // Parse the content, throw if it is not valid for this format
+}
+
+/**
+ * Hints used to pick the format of a script
+ */
+export interface ScriptFormatHints {
+  format?: string; // Explicit format name - no other format is tried
+  type?: string; // ScriptData.type
+  contentType?: string | null; // Response Content-Type header
+  url?: string; // Script URL
+}
+
+// Content-Types that say nothing about the script format
+const GENERIC_MIME_TYPES = ["application/octet-stream", "text/plain", ""];
+
+// Extensions of gzip/deflate payloads, before any query string or fragment
+const COMPRESSION_EXTENSION = /\.(gz|gzip|deflate|zz)(?=[?#]|$)/i;
+
+const formatRegistry: Map<string, ScriptFormat> = new Map();
+
+/**
+ * Register a script format, replacing any format with the same name.
+ * Formats registered later are sniffed first.
+ */
+export function registerScriptFormat(format: ScriptFormat): void {
+  formatRegistry.delete(format.name);
+  formatRegistry.set(format.name, format);
+}
+
+/**
+ * Remove a registered script format
+ * @returns Whether the format was registered
+ */
+export function unregisterScriptFormat(name: string): boolean {
+  return formatRegistry.delete(name);
+}
+
+/**
+ * Get a registered script format
+ */
+export function getScriptFormat(name: string): ScriptFormat | undefined {
+  return formatRegistry.get(name);
+}
+
+/**
+ * Get the registered format using a file extension, most recent first
+ * @param extension Extension without the dot (e.g. "csv")
+ */
+export function getScriptFormatByExtension(
+  extension: string
+): ScriptFormat | undefined {
+  const lower = extension.toLowerCase();
+
+  return Array.from(formatRegistry.values())
+    .reverse()
+    .find((format) => format.extensions?.includes(lower));
+}
+
+/**
+ * Get the names of all registered script formats
+ */
+export function getScriptFormatNames(): string[] {
+  return Array.from(formatRegistry.keys());
+}
+
+/**
+ * Get the file extension of a URL, ignoring query strings and fragments
+ * @returns Lower-cased extension without the dot, or null if there is none
+ */
+export function getUrlExtension(url: string): string | null {
+  let path = url;
+
+  try {
+    path = new URL(url, "http://localhost").pathname;
+  } catch {
+    path = url.split(/[?#]/)[0];
+  }
+
+  const fileName = path.split("/").pop() ?? "";
+  const dotIndex = fileName.lastIndexOf(".");
+
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : null;
+}
+
+/**
+ * Remove a compression extension from a file name or URL
+ * (`video.twist.funscript.gz` -> `video.twist.funscript`)
+ */
+export function stripCompressionExtension(url: string): string {
+  return url.replace(COMPRESSION_EXTENSION, "");
+}
+
+/**
+ * Resolve the formats to try for a script, most likely first:
+ * explicit format, script type, Content-Type, URL extension, then sniffing.
+ * @param text Script content
+ * @param hints Format hints
+ * @throws Error if an explicit format is not registered
+ */
+export function resolveScriptFormats(
+  text: string,
+  hints: ScriptFormatHints = {}
+): ScriptFormat[] {
+  if (hints.format) {
+    const format = getScriptFormat(hints.format);
+    if (!format) {
+      throw new Error(`Unknown script format: ${hints.format}`);
+    }
+    return [format];
+  }
+
+  const formats = Array.from(formatRegistry.values()).reverse();
+  const candidates: ScriptFormat[] = [];
+  const add = (format: ScriptFormat | undefined) => {
+    if (format && !candidates.includes(format)) {
+      candidates.push(format);
+    }
+  };
+
+  if (hints.type) {
+    add(getScriptFormat(hints.type));
+  }
+
+  const mimeType = hints.contentType?.split(";")[0].trim().toLowerCase();
+  if (mimeType !== undefined && !GENERIC_MIME_TYPES.includes(mimeType)) {
+    add(formats.find((format) => format.mimeTypes?.includes(mimeType)));
+  }
+
+  const extension = hints.url ? getUrlExtension(hints.url) : null;
+  if (extension) {
+    add(getScriptFormatByExtension(extension));
+  }
+
+  formats
+    .filter((format) => format.sniff?.(text))
+    .forEach((format) => add(format));
+
+  return candidates;
+}
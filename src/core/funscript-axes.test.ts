@@ -0,0 +1,33 @@
+import { getAxisFromUrl, getSiblingAxisUrl } from "./funscript-axes";
+
+describe("getAxisFromUrl", () => {
+  it("reads the axis name before the extension", () => {
+    expect(getAxisFromUrl("https://x/video.twist.funscript?v=1")).toBe("R0");
+    expect(getAxisFromUrl("pack/video.surge.funscript")).toBe("L1");
+  });
+
+  it("uses the primary axis for main scripts and unknown names", () => {
+    expect(getAxisFromUrl("https://x/video.funscript")).toBe("L0");
+    expect(getAxisFromUrl("https://x/video.soft.funscript")).toBe("L0");
+  });
+
+  it("ignores compression extensions", () => {
+    expect(getAxisFromUrl("https://x/video.twist.funscript.gz")).toBe("R0");
+    expect(getAxisFromUrl("video.roll.funscript.deflate")).toBe("R1");
+    expect(getAxisFromUrl("https://x/video.funscript.gz")).toBe("L0");
+  });
+});
+
+describe("getSiblingAxisUrl", () => {
+  it("inserts the axis name before the extension", () => {
+    expect(getSiblingAxisUrl("https://x/video.funscript?v=1", "R0")).toBe(
+      "https://x/video.twist.funscript?v=1"
+    );
+  });
+
+  it("keeps compression extensions last", () => {
+    expect(getSiblingAxisUrl("https://x/video.funscript.gz", "R0")).toBe(
+      "https://x/video.twist.funscript.gz"
+    );
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Funscript Axes
+ *
+ * Helpers for multi-axis funscripts (L0/L1/L2/R0/R1/R2/V0/A0...).
+ * The main `actions` array is always the L0 (stroke) axis, every other
+ * axis lives in `Funscript.axes`.
+ */
+
+import { Funscript, FunscriptAction, FunscriptAxis } from "./device-interface";
+import { stripCompressionExtension } from "./format-registry";
+
+/**
+ * The primary stroke axis, stored in `Funscript.actions`
+ */
+export const PRIMARY_AXIS = "L0";
+
+/**
+ * Known axis ids and the names used for sibling script files
+ * (e.g. `video.twist.funscript` holds the R0 axis)
+ */
+export const FUNSCRIPT_AXIS_NAMES: Record<string, string> = {
+  L0: "stroke",
+  L1: "surge",
+  L2: "sway",
+  R0: "twist",
+  R1: "roll",
+  R2: "pitch",
+  V0: "vib",
+  V1: "pump",
+  A0: "valve",
+  A1: "suck",
+  A2: "lube",
+};
+
+/**
+ * Resolve an axis id from either an id ("R0") or a name ("twist")
+ * @returns The axis id, or null if unknown
+ */
+export function resolveAxisId(idOrName: string): string | null {
+  const value = idOrName.trim();
+  const upper = value.toUpperCase();
+
+  if (upper in FUNSCRIPT_AXIS_NAMES) {
+    return upper;
+  }
+
+  const lower = value.toLowerCase();
+  for (const [id, name] of Object.entries(FUNSCRIPT_AXIS_NAMES)) {
+    if (name === lower) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the axis id encoded in a script file name or URL, compressed or not
+ * (`video.twist.funscript.gz` -> "R0", `video.funscript` -> "L0")
+ */
+export function getAxisFromUrl(url: string): string {
+  const path = stripCompressionExtension(url.split(/[?#]/)[0]);
+  const fileName = path.split("/").pop() ?? "";
+  const parts = fileName.split(".");
+
+  if (parts.length >= 3) {
+    return resolveAxisId(parts[parts.length - 2]) ?? PRIMARY_AXIS;
+  }
+
+  return PRIMARY_AXIS;
+}
+
+/**
+ * Build the URL of a sibling axis script, keeping any compression extension
+ * (`video.funscript` + "R0" -> `video.twist.funscript`)
+ */
+export function getSiblingAxisUrl(url: string, axisId: string): string {
+  const name = FUNSCRIPT_AXIS_NAMES[axisId] ?? axisId.toLowerCase();
+  const uncompressed = stripCompressionExtension(url);
+  const match = uncompressed.match(/^([^?#]*?)(\.[^./?#]+)?([?#].*)?$/);
+
+  if (!match) {
+    return url;
+  }
+
+  const [, base, extension = "", suffix = ""] = match;
+  const compression = url.slice(
+    base.length + extension.length,
+    url.length - suffix.length
+  );
+  return `${base}.${name}${extension}${compression}${suffix}`;
+}
+
+/**
+ * Get the ids of all axes present in a funscript, primary axis first
+ */
+export function getFunscriptAxisIds(funscript: Funscript): string[] {
+  const ids: string[] = [];
+
+  if (funscript.actions.length > 0) {
+    ids.push(PRIMARY_AXIS);
+  }
+
+  for (const axis of funscript.axes ?? []) {
+    if (axis.actions.length > 0 && !ids.includes(axis.id)) {
+      ids.push(axis.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Get the actions of a single axis
+ * @returns The axis actions, or null if the axis is not present
+ */
+export function getAxisActions(
+  funscript: Funscript,
+  axisId: string
+): FunscriptAction[] | null {
+  if (axisId === PRIMARY_AXIS) {
+    return funscript.actions;
+  }
+
+  return funscript.axes?.find((axis) => axis.id === axisId)?.actions ?? null;
+}
+
+/**
+ * Return a copy of the funscript with the actions of one axis replaced
+ */
+export function setAxisActions(
+  funscript: Funscript,
+  axisId: string,
+  actions: FunscriptAction[]
+): Funscript {
+  if (axisId === PRIMARY_AXIS) {
+    return { ...funscript, actions };
+  }
+
+  const axes = (funscript.axes ?? []).filter((axis) => axis.id !== axisId);
+  axes.push({ id: axisId, actions });
+
+  return { ...funscript, axes: sortAxes(axes) };
+}
+
+/**
+ * Return a copy of the funscript with every axis track mapped through `fn`
+ */
+export function mapFunscriptAxes(
+  funscript: Funscript,
+  fn: (actions: FunscriptAction[], axisId: string) => FunscriptAction[]
+): Funscript {
+  const result: Funscript = {
+    ...funscript,
+    actions: fn(funscript.actions, PRIMARY_AXIS),
+  };
+
+  if (funscript.axes) {
+    result.axes = funscript.axes.map((axis) => ({
+      ...axis,
+      actions: fn(axis.actions, axis.id),
+    }));
+  }
+
+  return result;
+}
+
+/**
+ * Normalize the axes of a funscript:
+ * - resolves axis names to ids ("twist" -> "R0")
+ * - moves an L0 entry of `axes` into `actions` when `actions` is empty
+ * - sorts every axis by timestamp
+ */
+export function normalizeFunscriptAxes(funscript: Funscript): Funscript {
+  if (!Array.isArray(funscript.axes)) {
+    return funscript;
+  }
+
+  let actions = funscript.actions;
+  const axes: FunscriptAxis[] = [];
+
+  for (const axis of funscript.axes) {
+    if (!axis || !Array.isArray(axis.actions)) {
+      continue;
+    }
+
+    const id = resolveAxisId(String(axis.id ?? "")) ?? String(axis.id);
+    const sorted = [...axis.actions].sort((a, b) => a.at - b.at);
+
+    if (id === PRIMARY_AXIS) {
+      if (actions.length === 0) {
+        actions = sorted;
+      }
+      continue;
+    }
+
+    if (!axes.some((existing) => existing.id === id)) {
+      axes.push({ ...axis, id, actions: sorted });
+    }
+  }
+
+  const result: Funscript = { ...funscript, actions };
+  if (axes.length > 0) {
+    result.axes = sortAxes(axes);
+  } else {
+    delete result.axes;
+  }
+
+  return result;
+}
+
+/**
+ * Return a copy of the funscript that only carries the given axes.
+ * The primary axis is always kept since every device relies on it.
+ */
+export function selectFunscriptAxes(
+  funscript: Funscript,
+  axisIds: string[]
+): Funscript {
+  if (!funscript.axes) {
+    return funscript;
+  }
+
+  const axes = funscript.axes.filter((axis) => axisIds.includes(axis.id));
+  const result: Funscript = { ...funscript };
+
+  if (axes.length > 0) {
+    result.axes = axes;
+  } else {
+    delete result.axes;
+  }
+
+  return result;
+}
+
+/**
+ * Sort axes by their position in FUNSCRIPT_AXIS_NAMES, unknown ids last
+ */
+function sortAxes(axes: FunscriptAxis[]): FunscriptAxis[] {
+  const order = Object.keys(FUNSCRIPT_AXIS_NAMES);
+  const rank = (id: string) => {
+    const index = order.indexOf(id);
+    return index === -1 ? order.length : index;
+  };
+
+  return axes.sort((a, b) => rank(a.id) - rank(b.id));
+}
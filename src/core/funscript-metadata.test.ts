@@ -0,0 +1,24 @@
+import { formatFunscriptTime, parseFunscriptTime } from "./funscript-metadata";
+
+describe("parseFunscriptTime", () => {
+  it("reads numbers and numeric strings as milliseconds", () => {
+    expect(parseFunscriptTime(90000)).toBe(90000);
+    expect(parseFunscriptTime("90000")).toBe(90000);
+    expect(parseFunscriptTime(" 1500.5 ")).toBe(1500.5);
+  });
+
+  it("reads clock times", () => {
+    expect(parseFunscriptTime("01:30")).toBe(90000);
+    expect(parseFunscriptTime("00:01:30.250")).toBe(90250);
+  });
+
+  it("returns NaN for invalid values", () => {
+    expect(parseFunscriptTime("")).toBeNaN();
+    expect(parseFunscriptTime("1:xx")).toBeNaN();
+    expect(parseFunscriptTime(null)).toBeNaN();
+  });
+
+  it("reads formatted times back", () => {
+    expect(parseFunscriptTime(formatFunscriptTime(3723004))).toBe(3723004);
+  });
+});
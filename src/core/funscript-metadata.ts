@@ -0,0 +1,243 @@
+/**
+ * Funscript Metadata
+ *
+ * Typed access to the funscript 1.1 metadata block. Loose metadata from
+ * scripting tools (numeric strings, comma separated tags, unsorted chapters
+ * without end times) is normalized so chapters and bookmarks form a sorted
+ * timeline.
+ */
+
+import {
+  Funscript,
+  FunscriptBookmark,
+  FunscriptChapter,
+  FunscriptMetadata,
+  ScriptBookmark,
+  ScriptChapter,
+} from "./device-interface";
+
+const METADATA_STRING_FIELDS = [
+  "title",
+  "creator",
+  "description",
+  "license",
+  "notes",
+  "script_url",
+  "video_url",
+  "type",
+  "convertedFrom",
+] as const;
+
+/**
+ * Parse a metadata time ("HH:MM:SS.mmm", "MM:SS", or milliseconds as
+ * a number or numeric string)
+ * @returns Time in milliseconds, NaN if invalid
+ */
+export function parseFunscriptTime(value: unknown): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  if (typeof value !== "string" || value.trim() === "") {
+    return NaN;
+  }
+
+  const text = value.trim();
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+
+  const parts = text.split(":").map(Number);
+  if (parts.some(isNaN)) {
+    return NaN;
+  }
+
+  return Math.round(
+    parts.reduce((total, part) => total * 60 + part, 0) * 1000
+  );
+}
+
+/**
+ * Format a time as "HH:MM:SS.mmm", as used in funscript metadata
+ */
+export function formatFunscriptTime(timeMs: number): string {
+  const totalMs = Math.max(0, Math.round(timeMs));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Get the chapters of a funscript as a sorted timeline.
+ * Chapters without an end time run until the next chapter, or the end of
+ * the video (metadata duration) or script.
+ */
+export function getFunscriptChapters(funscript: Funscript): ScriptChapter[] {
+  const chapters = funscript.metadata?.chapters;
+  if (!Array.isArray(chapters)) {
+    return [];
+  }
+
+  const parsed = chapters
+    .map((chapter: Partial<FunscriptChapter>, index: number) => ({
+      name: typeof chapter?.name === "string" ? chapter.name : `${index + 1}`,
+      startMs: parseFunscriptTime(chapter?.startTime),
+      endMs:
+        chapter?.endTime === undefined || chapter?.endTime === ""
+          ? undefined
+          : parseFunscriptTime(chapter.endTime),
+    }))
+    .filter((chapter) => !isNaN(chapter.startMs) && chapter.startMs >= 0)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const durationMs = getFunscriptDuration(funscript);
+
+  return parsed
+    .map((chapter, index) => ({
+      name: chapter.name,
+      startMs: chapter.startMs,
+      endMs:
+        chapter.endMs ??
+        Math.max(chapter.startMs, parsed[index + 1]?.startMs ?? durationMs),
+    }))
+    .filter(
+      (chapter) => !isNaN(chapter.endMs) && chapter.endMs >= chapter.startMs
+    );
+}
+
+/**
+ * Get the bookmarks of a funscript sorted by time
+ */
+export function getFunscriptBookmarks(funscript: Funscript): ScriptBookmark[] {
+  const bookmarks = funscript.metadata?.bookmarks;
+  if (!Array.isArray(bookmarks)) {
+    return [];
+  }
+
+  return bookmarks
+    .map((bookmark: Partial<FunscriptBookmark>, index: number) => ({
+      name: typeof bookmark?.name === "string" ? bookmark.name : `${index + 1}`,
+      timeMs: parseFunscriptTime(bookmark?.time),
+    }))
+    .filter((bookmark) => !isNaN(bookmark.timeMs) && bookmark.timeMs >= 0)
+    .sort((a, b) => a.timeMs - b.timeMs);
+}
+
+/**
+ * Find the chapter playing at a time
+ * @param chapters Sorted chapters (see getFunscriptChapters)
+ * @param timeMs Playback time in milliseconds
+ * @returns The chapter, or null between and outside chapters
+ */
+export function getChapterAt(
+  chapters: ScriptChapter[],
+  timeMs: number
+): ScriptChapter | null {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    const chapter = chapters[i];
+    if (chapter.startMs <= timeMs && timeMs < chapter.endMs) {
+      return chapter;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalize the metadata block of a funscript: known fields are coerced to
+ * their types (invalid values dropped), tags and performers become string
+ * arrays, chapters and bookmarks are sorted with times as "HH:MM:SS.mmm".
+ * Unknown fields are kept as they are.
+ * @returns A funscript with normalized metadata (the same one if it has none)
+ */
+export function normalizeFunscriptMetadata(funscript: Funscript): Funscript {
+  const metadata = funscript.metadata;
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+    return funscript;
+  }
+
+  const normalized: FunscriptMetadata = { ...metadata };
+
+  for (const field of METADATA_STRING_FIELDS) {
+    const value = metadata[field];
+    if (typeof value === "number") {
+      normalized[field] = String(value);
+    } else if (value !== undefined && typeof value !== "string") {
+      delete normalized[field];
+    }
+  }
+
+  const duration = Number(metadata.duration);
+  if (metadata.duration !== undefined) {
+    if (typeof metadata.duration !== "boolean" && duration >= 0) {
+      normalized.duration = duration;
+    } else {
+      delete normalized.duration;
+    }
+  }
+
+  for (const field of ["tags", "performers"] as const) {
+    if (metadata[field] !== undefined) {
+      normalized[field] = toStringList(metadata[field]);
+    }
+  }
+
+  if (metadata.chapters !== undefined) {
+    normalized.chapters = getFunscriptChapters(funscript).map((chapter) => ({
+      name: chapter.name,
+      startTime: formatFunscriptTime(chapter.startMs),
+      endTime: formatFunscriptTime(chapter.endMs),
+    }));
+  }
+
+  if (metadata.bookmarks !== undefined) {
+    normalized.bookmarks = getFunscriptBookmarks(funscript).map(
+      (bookmark) => ({
+        name: bookmark.name,
+        time: formatFunscriptTime(bookmark.timeMs),
+      })
+    );
+  }
+
+  return { ...funscript, metadata: normalized };
+}
+
+/**
+ * End of the script timeline: the video duration from the metadata,
+ * otherwise the last action
+ */
+function getFunscriptDuration(funscript: Funscript): number {
+  const duration = Number(funscript.metadata?.duration);
+  if (duration > 0) {
+    return duration * 1000;
+  }
+
+  const actions = funscript.actions ?? [];
+  return actions.reduce((max, action) => Math.max(max, action.at), 0);
+}
+
+/**
+ * Read a list of strings from an array or a comma separated string
+ */
+function toStringList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(",")
+    : [];
+
+  return items
+    .filter((item) => typeof item === "string" || typeof item === "number")
+    .map((item) => String(item).trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Zero-pad a number
+ */
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
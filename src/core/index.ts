@@ -4,4 +4,20 @@
 export * from "./device-interface";
 export * from "./device-manager";
 export * from "./events";
+export * from "./format-registry";
+export * from "./funscript-axes";
+export * from "./funscript-metadata";
+export * from "./legacy-formats";
+export * from "./media-sync";
 export * from "./script-loader";
+export * from "./script-loop";
+export * from "./script-resampler";
+export * from "./script-analyzer";
+export * from "./script-archive";
+export * from "./script-cache";
+export * from "./script-cache-storage";
+export * from "./script-validator";
+export * from "./script-serializer";
+export * from "./script-simplifier";
+export * from "./script-timeline";
+export * from "./script-transforms";
@@ -0,0 +1,100 @@
+import { FunscriptAction } from "./device-interface";
+import {
+  detectLegacyFormat,
+  parseKiirooScript,
+  parseLaunchScript,
+  parseRealTouchScript,
+  parseVirtualRealPornScript,
+} from "./legacy-formats";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+const KIIROO = "{2.0:0,1.5:4}";
+const VRP_INI = [
+  "[Player]",
+  "zoom=0",
+  "[Launch]",
+  "launch=0.5/99-50;1.0/0-50",
+].join("\n");
+const REALTOUCH = "0 0.5 U 50\n1 0.5 D";
+
+describe("parseKiirooScript", () => {
+  it("maps seconds to ms and levels 0-4 to positions", () => {
+    expect(parseKiirooScript(KIIROO)).toEqual({
+      actions: actions([1500, 100], [2000, 0]),
+      metadata: { convertedFrom: "kiiroo" },
+    });
+  });
+
+  it("reads the script and FeelMe forms", () => {
+    const expected = actions([1500, 100], [2000, 0]);
+
+    expect(
+      parseKiirooScript(`var kiiroo_subtitles = ${KIIROO};`).actions
+    ).toEqual(expected);
+    expect(
+      parseKiirooScript(JSON.stringify({ text: KIIROO })).actions
+    ).toEqual(expected);
+  });
+});
+
+describe("parseLaunchScript", () => {
+  it("maps positions 0-99 to 0-100", () => {
+    expect(
+      parseLaunchScript('[{"at":500,"pos":99},{"at":0,"pos":0}]')
+    ).toEqual({
+      actions: actions([0, 0], [500, 100]),
+      metadata: { convertedFrom: "launch" },
+    });
+  });
+
+  it("reads wrapped commands with other field names", () => {
+    expect(
+      parseLaunchScript('{"commands":[{"time":100,"position":"49.5"}]}')
+        .actions
+    ).toEqual(actions([100, 50]));
+  });
+});
+
+describe("parseVirtualRealPornScript", () => {
+  it("reads the Launch section", () => {
+    expect(parseVirtualRealPornScript(VRP_INI)).toEqual({
+      actions: actions([500, 100], [1000, 0]),
+      metadata: { convertedFrom: "ini" },
+    });
+  });
+
+  it("falls back to the Kiiroo section", () => {
+    expect(
+      parseVirtualRealPornScript("[Kiiroo]\nonyx=1.0,4;2.0,0").actions
+    ).toEqual(actions([1000, 100], [2000, 0]));
+  });
+});
+
+describe("parseRealTouchScript", () => {
+  it("turns belt movements into positions", () => {
+    expect(parseRealTouchScript(REALTOUCH)).toEqual({
+      actions: actions([0, 0], [500, 50], [1000, 50], [1500, 0]),
+      metadata: { convertedFrom: "realtouch" },
+    });
+  });
+});
+
+describe("detectLegacyFormat", () => {
+  it("detects formats from their content", () => {
+    expect(detectLegacyFormat(KIIROO)).toBe("kiiroo");
+    expect(detectLegacyFormat(JSON.stringify({ text: KIIROO }))).toBe(
+      "kiiroo"
+    );
+    expect(detectLegacyFormat(VRP_INI)).toBe("ini");
+    expect(detectLegacyFormat(REALTOUCH)).toBe("realtouch");
+  });
+
+  it("ignores other scripts", () => {
+    expect(detectLegacyFormat('{"actions":[{"at":0,"pos":1}]}')).toBeNull();
+    expect(detectLegacyFormat('[{"at":0,"pos":0}]')).toBeNull();
+    expect(detectLegacyFormat("0,0\n100,100")).toBeNull();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Legacy Script Formats
+ *
+ * Parsers converting old script formats to Funscript:
+ * - Kiiroo (`.kiiroo`): `{time:level,...}` with time in seconds, level 0-4
+ * - Launch (`.launch`): JSON commands with position/speed 0-99, time in ms
+ * - VirtualRealPorn (`.ini`): `[Launch]` or `[Kiiroo]` sections
+ * - RealTouch (`.realtouch`, `.ott`): belt movement commands
+ *
+ * Converted scripts note their source in `metadata.convertedFrom`. The
+ * parsers are registered as script formats by the script loader.
+ */
+
+import { Funscript, FunscriptAction } from "./device-interface";
+
+/**
+ * Supported legacy formats
+ */
+export type LegacyScriptFormat = "kiiroo" | "launch" | "ini" | "realtouch";
+
+const KIIROO_PAIR = /"?(\d+(?:\.\d+)?)"?\s*:\s*"?(\d+(?:\.\d+)?)"?/g;
+const KIIROO_OBJECT =
+  /^\{\s*"?\d+(?:\.\d+)?"?\s*:\s*"?[0-4](?:\.\d+)?"?(?:\s*,\s*"?\d+(?:\.\d+)?"?\s*:\s*"?[0-4](?:\.\d+)?"?)*\s*,?\s*\}$/;
+const KIIROO_VARIABLE = /^(?:var\s+)?kiiroo_subtitles\s*=\s*/i;
+const LAUNCH_ENTRY =
+  /(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/g;
+const REALTOUCH_LINE =
+  /^\s*(\d+(?:\.\d+)?)[\s,]+(\d+(?:\.\d+)?)[\s,]+([UDIO])\b[\s,]*(\d+(?:\.\d+)?)?/i;
+
+/**
+ * Detect a legacy format from the content. Launch scripts are plain JSON
+ * arrays and are not detected.
+ * @param text Script content
+ * @returns The detected format, or null if the content is not a legacy script
+ */
+export function detectLegacyFormat(text: string): LegacyScriptFormat | null {
+  const trimmed = text.trim();
+
+  if (/^\s*\[(kiiroo|launch|player)\]/im.test(trimmed)) {
+    return "ini";
+  }
+
+  if (isKiirooSource(trimmed) || isFeelMeKiirooScript(trimmed)) {
+    return "kiiroo";
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length > 0 && lines.every((line) => REALTOUCH_LINE.test(line))) {
+    return "realtouch";
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Kiiroo script.
+ * Accepts the raw `{time:level}` object, the `var kiiroo_subtitles = {...}`
+ * script form and FeelMe JSON wrapping it in a `text` or `subtitles` field.
+ * Levels 0-4 are mapped to positions 0-100.
+ */
+export function parseKiirooScript(text: string): Funscript {
+  let source = text;
+
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed?.text === "string") {
+      source = parsed.text;
+    } else if (parsed?.subtitles) {
+      source = JSON.stringify(parsed.subtitles);
+    }
+  } catch {
+    // Not JSON - parse the raw object
+  }
+
+  const actions: FunscriptAction[] = [];
+  const pairs = new RegExp(KIIROO_PAIR);
+  let match: RegExpExecArray | null;
+  while ((match = pairs.exec(source)) !== null) {
+    actions.push({
+      at: Math.round(parseFloat(match[1]) * 1000),
+      pos: kiirooLevelToPosition(parseFloat(match[2])),
+    });
+  }
+
+  return createFunscript(actions, "kiiroo");
+}
+
+/**
+ * Parse a Launch script: JSON commands with a time in milliseconds and
+ * a position 0-99, either as an array or under `actions`/`commands`/`data`.
+ */
+export function parseLaunchScript(text: string): Funscript {
+  const parsed = JSON.parse(text);
+  const commands: unknown = Array.isArray(parsed)
+    ? parsed
+    : parsed?.actions ?? parsed?.Actions ?? parsed?.commands ?? parsed?.data;
+
+  const actions: FunscriptAction[] = [];
+
+  if (Array.isArray(commands)) {
+    for (const command of commands) {
+      const at = readNumber(command, ["at", "time", "timestamp", "Time"]);
+      const pos = readNumber(command, ["pos", "position", "Position"]);
+
+      if (at !== null && pos !== null) {
+        actions.push({ at: Math.round(at), pos: launchToPosition(pos) });
+      }
+    }
+  }
+
+  return createFunscript(actions, "launch");
+}
+
+/**
+ * Parse a VirtualRealPorn `.ini` script.
+ * The `[Launch]` section (`seconds/position-speed` entries, position 0-99) is
+ * preferred over the `[Kiiroo]` section (`seconds,level` entries, level 0-4).
+ */
+export function parseVirtualRealPornScript(text: string): Funscript {
+  const sections = parseIniSections(text);
+  const actions: FunscriptAction[] = [];
+
+  const launch = Object.values(sections.launch ?? {}).join(";");
+  const entries = new RegExp(LAUNCH_ENTRY);
+  let match: RegExpExecArray | null;
+  while ((match = entries.exec(launch)) !== null) {
+    actions.push({
+      at: Math.round(parseFloat(match[1]) * 1000),
+      pos: launchToPosition(parseFloat(match[2])),
+    });
+  }
+
+  if (actions.length === 0) {
+    const kiiroo = Object.values(sections.kiiroo ?? {}).join(";");
+    for (const entry of kiiroo.split(";")) {
+      const [time, level] = entry.split(",").map((value) => parseFloat(value));
+      if (!isNaN(time) && !isNaN(level)) {
+        actions.push({
+          at: Math.round(time * 1000),
+          pos: kiirooLevelToPosition(level),
+        });
+      }
+    }
+  }
+
+  return createFunscript(actions, "ini");
+}
+
+/**
+ * Parse a RealTouch script.
+ * Each line is `start duration direction [magnitude]` with times in seconds.
+ * Belt movements U/I move towards the top, D/O towards the bottom, by
+ * `magnitude` (0-100, default full stroke). Other commands are ignored.
+ */
+export function parseRealTouchScript(text: string): Funscript {
+  const actions: FunscriptAction[] = [];
+  let pos = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(REALTOUCH_LINE);
+    if (!match) continue;
+
+    const start = Math.round(parseFloat(match[1]) * 1000);
+    const duration = Math.round(parseFloat(match[2]) * 1000);
+    const direction = match[3].toUpperCase();
+    const magnitude = match[4] !== undefined ? parseFloat(match[4]) : 100;
+    const distance = Math.min(100, Math.max(0, magnitude));
+    const up = direction === "U" || direction === "I";
+
+    const target = Math.min(
+      100,
+      Math.max(0, pos + (up ? distance : -distance))
+    );
+
+    if (actions.length === 0 || actions[actions.length - 1].at < start) {
+      actions.push({ at: start, pos });
+    }
+    actions.push({ at: start + Math.max(1, duration), pos: target });
+    pos = target;
+  }
+
+  return createFunscript(actions, "realtouch");
+}
+
+/**
+ * Check whether text is a Kiiroo `{time:level}` object, optionally assigned
+ * to `kiiroo_subtitles`
+ */
+function isKiirooSource(text: string): boolean {
+  const body = text.trim().replace(KIIROO_VARIABLE, "").replace(/;\s*$/, "");
+  return KIIROO_OBJECT.test(body);
+}
+
+/**
+ * Check whether text is FeelMe JSON wrapping a Kiiroo script
+ */
+function isFeelMeKiirooScript(text: string): boolean {
+  if (!text.startsWith("{")) {
+    return false;
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed?.text === "string") {
+      return isKiirooSource(parsed.text);
+    }
+    if (parsed?.subtitles && typeof parsed.subtitles === "object") {
+      return isKiirooSource(JSON.stringify(parsed.subtitles));
+    }
+  } catch {
+    // Not JSON
+  }
+
+  return false;
+}
+
+/**
+ * Map a Kiiroo level (0-4) to a funscript position (0-100)
+ */
+function kiirooLevelToPosition(level: number): number {
+  return Math.round(Math.min(4, Math.max(0, level)) * 25);
+}
+
+/**
+ * Map a Launch position (0-99) to a funscript position (0-100)
+ */
+function launchToPosition(pos: number): number {
+  return Math.round((Math.min(99, Math.max(0, pos)) / 99) * 100);
+}
+
+/**
+ * Read the first numeric field found among `keys`
+ */
+function readNumber(item: unknown, keys: string[]): number | null {
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+
+  const record = item as Record<string, unknown>;
+
+  for (const key of keys) {
+    const value = Number(record[key]);
+    if (record[key] !== undefined && !isNaN(value)) {
+      return value;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse ini content into lower-cased sections of key/value pairs
+ */
+function parseIniSections(
+  text: string
+): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let current = "";
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const section = line.match(/^\[(.+)\]$/);
+
+    if (section) {
+      current = section[1].trim().toLowerCase();
+      sections[current] = sections[current] ?? {};
+    } else if (line.includes("=")) {
+      const index = line.indexOf("=");
+      sections[current] = sections[current] ?? {};
+      sections[current][line.slice(0, index).trim().toLowerCase()] = line
+        .slice(index + 1)
+        .trim();
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Build a sorted funscript noting its source format
+ */
+function createFunscript(
+  actions: FunscriptAction[],
+  format: LegacyScriptFormat
+): Funscript {
+  return {
+    actions: actions.sort((a, b) => a.at - b.at),
+    metadata: { convertedFrom: format },
+  };
+}
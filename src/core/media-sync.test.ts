@@ -0,0 +1,149 @@
+import { DeviceCommandsEvent, DeviceManager } from "./device-manager";
+import { EventEmitter } from "./events";
+import {
+  MediaSync,
+  MediaSyncResyncEvent,
+  MediaSyncSource,
+  MediaSyncSourceEvent,
+} from "./media-sync";
+
+/**
+ * Media clock controlled by the test
+ */
+class FakeSource implements MediaSyncSource {
+  timeMs = 0;
+  playbackRate = 1;
+  playing = false;
+  private listener: ((event: MediaSyncSourceEvent) => void) | null = null;
+
+  getTimeMs(): number {
+    return this.timeMs;
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  subscribe(listener: (event: MediaSyncSourceEvent) => void): () => void {
+    this.listener = listener;
+    return () => (this.listener = null);
+  }
+
+  report(event: MediaSyncSourceEvent, playing: boolean): void {
+    this.playing = playing;
+    this.listener?.(event);
+  }
+}
+
+/**
+ * Device manager recording the commands MediaSync sends
+ */
+function createManager() {
+  const manager = new EventEmitter();
+  const commands = {
+    playAll: jest.fn().mockResolvedValue({ fake: true }),
+    pauseAll: jest.fn().mockResolvedValue({ fake: true }),
+    resumeAll: jest.fn().mockResolvedValue({ fake: true }),
+    stopAll: jest.fn().mockResolvedValue({ fake: true }),
+    syncTimeAll: jest.fn().mockResolvedValue({ fake: true }),
+  };
+
+  return {
+    manager: Object.assign(manager, commands) as unknown as DeviceManager,
+    commands,
+    emit: (event: DeviceCommandsEvent) => manager.emit("deviceCommands", event),
+  };
+}
+
+// Let queued source events run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("MediaSync", () => {
+  let source: FakeSource;
+  let fake: ReturnType<typeof createManager>;
+  let sync: MediaSync;
+  let events: MediaSyncResyncEvent[];
+
+  beforeEach(async () => {
+    source = new FakeSource();
+    fake = createManager();
+    sync = new MediaSync(fake.manager, source);
+    events = [];
+    sync.on("resync", (event) => events.push(event));
+    await sync.attach();
+  });
+
+  afterEach(async () => {
+    await sync.detach(false);
+  });
+
+  /**
+   * Play the media, then pause it with the devices paused
+   */
+  async function playAndPause(): Promise<void> {
+    source.report("play", true);
+    await flush();
+    source.timeMs = 5000;
+    source.report("pause", false);
+    await flush();
+  }
+
+  it("plays the devices when the media plays", async () => {
+    source.timeMs = 1000;
+    source.report("play", true);
+    await flush();
+
+    expect(fake.commands.playAll).toHaveBeenCalledWith(1000, 1, false);
+    expect(events).toEqual([{ timeMs: 1000, driftMs: 0, action: "play" }]);
+  });
+
+  it("pauses and resumes the devices with the media", async () => {
+    await playAndPause();
+    expect(fake.commands.pauseAll).toHaveBeenCalledTimes(1);
+
+    source.report("play", true);
+    await flush();
+
+    expect(fake.commands.resumeAll).toHaveBeenCalledWith(5000);
+    expect(fake.commands.playAll).toHaveBeenCalledTimes(1);
+    expect(events[1].action).toBe("resume");
+  });
+
+  it("plays when no device could be resumed", async () => {
+    await playAndPause();
+    fake.commands.resumeAll.mockResolvedValueOnce({ fake: false });
+
+    source.report("play", true);
+    await flush();
+
+    expect(fake.commands.playAll).toHaveBeenCalledTimes(2);
+    expect(fake.commands.playAll).toHaveBeenLastCalledWith(5000, 1, false);
+    expect(events[1].action).toBe("play");
+  });
+
+  it("plays after the devices were stopped by others", async () => {
+    await playAndPause();
+    fake.emit({ command: "stop", results: {} });
+
+    source.report("play", true);
+    await flush();
+
+    expect(fake.commands.resumeAll).not.toHaveBeenCalled();
+    expect(fake.commands.playAll).toHaveBeenCalledTimes(2);
+  });
+
+  it("plays with a loop set while paused", async () => {
+    await playAndPause();
+    await sync.setLoop(true);
+
+    source.report("play", true);
+    await flush();
+
+    expect(fake.commands.resumeAll).not.toHaveBeenCalled();
+    expect(fake.commands.playAll).toHaveBeenLastCalledWith(5000, 1, true);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Media Sync
+ *
+ * Keeps the devices of a DeviceManager in step with a media source: plays,
+ * pauses and re-times devices as the media plays, pauses, seeks, stalls while
+ * buffering or changes rate, and periodically corrects the drift between the
+ * media time and the devices' playback clock.
+ *
+ * Sources are HTMLMediaElements (video/audio) or any clock implementing
+ * MediaSyncSource, e.g. a custom player or a remote playback session.
+ */
+
+import { DeviceCommandsEvent, DeviceManager } from "./device-manager";
+import { EventEmitter } from "./events";
+import { ScriptLoopOptions } from "./script-loop";
+
+/**
+ * Changes a media source reports to MediaSync
+ */
+export type MediaSyncSourceEvent = "play" | "pause" | "seek" | "rate" | "stall";
+
+/**
+ * A media clock MediaSync follows
+ */
+export interface MediaSyncSource {
+  getTimeMs(): number; // Current media time in milliseconds
+  getPlaybackRate(): number;
+  isPlaying(): boolean; // Playing and not stalled
+  // Report changes to the listener, returns an unsubscribe function
+  subscribe(listener: (event: MediaSyncSourceEvent) => void): () => void;
+}
+
+/**
+ * MediaSync options
+ */
+export interface MediaSyncOptions {
+  loop?: boolean | ScriptLoopOptions; // Loop given to playAll (default false)
+  resyncIntervalMs?: number; // How often drift is checked while playing (default 1000)
+  driftThresholdMs?: number; // Drift corrected with syncTimeAll (default 50)
+  replayThresholdMs?: number; // Drift corrected by playing again with playAll (default 1000)
+  syncFilter?: number; // Filter given to syncTimeAll (default 0.5)
+}
+
+/**
+ * Payload of the "resync" event
+ */
+export interface MediaSyncResyncEvent {
+  timeMs: number; // Media time synced to
+  driftMs: number; // Media time minus the devices' expected time
+  action: "sync" | "play" | "resume"; // How the devices were brought to the time
+}
+
+/**
+ * Playback position last sent to the devices
+ */
+interface SyncReference {
+  timeMs: number;
+  sentAt: number; // Wall clock time (Date.now())
+  playbackRate: number;
+}
+
+// HTMLMediaElement.HAVE_FUTURE_DATA, not defined outside browsers
+const HAVE_FUTURE_DATA = 3;
+
+/**
+ * Media element events and the changes they report
+ */
+const MEDIA_ELEMENT_EVENTS: Record<string, MediaSyncSourceEvent> = {
+  playing: "play",
+  pause: "pause",
+  ended: "pause",
+  seeked: "seek",
+  ratechange: "rate",
+  waiting: "stall",
+};
+
+/**
+ * Create a media sync source from a video or audio element
+ * @param element The media element
+ */
+export function createMediaElementSource(
+  element: HTMLMediaElement
+): MediaSyncSource {
+  return {
+    getTimeMs: () => element.currentTime * 1000,
+    getPlaybackRate: () => element.playbackRate,
+    isPlaying: () =>
+      !element.paused &&
+      !element.ended &&
+      !element.seeking &&
+      element.readyState >= HAVE_FUTURE_DATA,
+    subscribe: (listener) => {
+      const handlers = Object.keys(MEDIA_ELEMENT_EVENTS).map((name) => {
+        const handler = () => listener(MEDIA_ELEMENT_EVENTS[name]);
+        element.addEventListener(name, handler);
+        return () => element.removeEventListener(name, handler);
+      });
+
+      return () => handlers.forEach((remove) => remove());
+    },
+  };
+}
+
+/**
+ * Media Sync class
+ * Binds a DeviceManager's playback to a media source
+ */
+export class MediaSync extends EventEmitter {
+  private manager: DeviceManager;
+  private source: MediaSyncSource;
+  private options: Required<Omit<MediaSyncOptions, "loop">> & {
+    loop: boolean | ScriptLoopOptions;
+  };
+  private unsubscribe: (() => void) | null = null;
+  private unsubscribeManager: (() => void) | null = null;
+  private resyncTimer: ReturnType<typeof setInterval> | null = null;
+  private reference: SyncReference | null = null; // Set while devices play
+  private pausedRate: number | null = null; // Set while devices are paused
+  private queue: Promise<void> = Promise.resolve();
+  private pendingCommands: number = 0;
+  private sending: boolean = false; // Own device commands are running
+
+  /**
+   * @param manager The device manager to control
+   * @param source A media element or media sync source
+   * @param options Sync options
+   */
+  constructor(
+    manager: DeviceManager,
+    source: MediaSyncSource | HTMLMediaElement,
+    options: MediaSyncOptions = {}
+  ) {
+    super();
+    this.manager = manager;
+    this.source = isMediaSyncSource(source)
+      ? source
+      : createMediaElementSource(source);
+    this.options = {
+      loop: options.loop ?? false,
+      resyncIntervalMs: options.resyncIntervalMs ?? 1000,
+      driftThresholdMs: options.driftThresholdMs ?? 50,
+      replayThresholdMs: options.replayThresholdMs ?? 1000,
+      syncFilter: options.syncFilter ?? 0.5,
+    };
+  }
+
+  /**
+   * Whether the sync is following its source
+   */
+  get isAttached(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Start following the source, playing the devices if it is playing
+   */
+  attach(): Promise<void> {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.source.subscribe((event) =>
+        this.handleSourceEvent(event)
+      );
+      this.unsubscribeManager = this.manager.on(
+        "deviceCommands",
+        (event: DeviceCommandsEvent) => this.handleDeviceCommands(event)
+      );
+    }
+
+    return this.enqueue(() => this.update(false));
+  }
+
+  /**
+   * Stop following the source
+   * @param stopDevices Also stop the devices if they are playing or paused
+   *   (default true)
+   */
+  detach(stopDevices: boolean = true): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.unsubscribeManager?.();
+    this.unsubscribeManager = null;
+    this.setResyncTimer(false);
+
+    return this.enqueue(async () => {
+      if (stopDevices && (this.reference || this.pausedRate !== null)) {
+        await this.manager.stopAll();
+      }
+      this.reference = null;
+      this.pausedRate = null;
+    });
+  }
+
+  /**
+   * Change the loop given to playAll, playing again if the devices play.
+   * Paused devices are played with the new loop instead of resumed.
+   */
+  setLoop(loop: boolean | ScriptLoopOptions): Promise<void> {
+    this.options.loop = loop;
+
+    return this.enqueue(() => this.update(true));
+  }
+
+  /**
+   * Check the drift now and correct it if it is above the thresholds
+   */
+  resync(): Promise<void> {
+    return this.enqueue(() => this.update(false));
+  }
+
+  /**
+   * Get the drift between the media time and the devices' expected time
+   * @returns Drift in milliseconds, or null when the devices don't play
+   */
+  getDrift(): number | null {
+    const reference = this.reference;
+    if (!reference) {
+      return null;
+    }
+
+    const expectedMs =
+      reference.timeMs +
+      (Date.now() - reference.sentAt) * reference.playbackRate;
+
+    return this.source.getTimeMs() - expectedMs;
+  }
+
+  /**
+   * Forget the paused devices when they are played or stopped by others
+   */
+  private handleDeviceCommands(event: DeviceCommandsEvent): void {
+    const { command } = event;
+    if (!this.sending && (command === "play" || command === "stop")) {
+      this.pausedRate = null;
+    }
+  }
+
+  /**
+   * Handle a change reported by the source
+   */
+  private handleSourceEvent(event: MediaSyncSourceEvent): void {
+    this.enqueue(() => this.update(event === "rate")).catch((error) => {
+      console.error(`Error syncing devices on media ${event}:`, error);
+    });
+  }
+
+  /**
+   * Bring the devices in line with the source: pause them when it doesn't
+   * play, resume them when it starts again (or play them if they weren't
+   * paused at its rate), and correct the drift while both play
+   * @param replay Play again even if the drift is small
+   */
+  private async update(replay: boolean): Promise<void> {
+    if (!this.unsubscribe) {
+      return;
+    }
+
+    if (!this.source.isPlaying()) {
+      this.setResyncTimer(false);
+      if (this.reference) {
+        this.pausedRate = this.reference.playbackRate;
+        this.reference = null;
+        await this.runCommand(() => this.manager.pauseAll());
+      }
+      // Play with the new settings instead of resuming
+      if (replay) {
+        this.pausedRate = null;
+      }
+      return;
+    }
+
+    const drift = this.getDrift();
+    const playbackRate = this.source.getPlaybackRate();
+
+    if (drift === null && !replay && playbackRate === this.pausedRate) {
+      await this.send("resume", 0, playbackRate);
+    } else if (
+      drift === null ||
+      replay ||
+      playbackRate !== this.reference!.playbackRate ||
+      Math.abs(drift) > this.options.replayThresholdMs
+    ) {
+      await this.send("play", drift ?? 0, playbackRate);
+    } else if (Math.abs(drift) > this.options.driftThresholdMs) {
+      await this.send("sync", drift, playbackRate);
+    }
+
+    this.setResyncTimer(true);
+  }
+
+  /**
+   * Play, resume or sync the devices at the current media time
+   */
+  private async send(
+    action: MediaSyncResyncEvent["action"],
+    driftMs: number,
+    playbackRate: number
+  ): Promise<void> {
+    const timeMs = this.source.getTimeMs();
+    this.reference = { timeMs, sentAt: Date.now(), playbackRate };
+    this.pausedRate = null;
+
+    if (action === "resume") {
+      const results = await this.runCommand(() =>
+        this.manager.resumeAll(timeMs)
+      );
+
+      // Nothing was paused anymore (e.g. stopped or given a new script)
+      if (!Object.values(results).some(Boolean)) {
+        action = "play";
+      }
+    }
+
+    if (action === "play") {
+      await this.runCommand(() =>
+        this.manager.playAll(timeMs, playbackRate, this.options.loop)
+      );
+    } else if (action === "sync") {
+      await this.runCommand(() =>
+        this.manager.syncTimeAll(timeMs, this.options.syncFilter)
+      );
+    }
+
+    const event: MediaSyncResyncEvent = { timeMs, driftMs, action };
+    this.emit("resync", event);
+  }
+
+  /**
+   * Run a device command, marking the commands it causes as our own
+   */
+  private async runCommand<T>(command: () => Promise<T>): Promise<T> {
+    this.sending = true;
+    try {
+      return await command();
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  /**
+   * Run device commands one at a time, in the order the changes came in
+   */
+  private enqueue(command: () => Promise<void>): Promise<void> {
+    this.pendingCommands++;
+    const result = this.queue.then(command).finally(() => {
+      this.pendingCommands--;
+    });
+    this.queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  /**
+   * Check the drift periodically while the devices play
+   */
+  private setResyncTimer(enabled: boolean): void {
+    if (enabled && !this.resyncTimer) {
+      this.resyncTimer = setInterval(() => {
+        // Skip the check while commands are still running
+        if (this.pendingCommands === 0) {
+          this.resync().catch((error) => {
+            console.error("Error resyncing devices:", error);
+          });
+        }
+      }, this.options.resyncIntervalMs);
+    } else if (!enabled && this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+  }
+}
+
+/**
+ * Whether a source is a MediaSyncSource rather than a media element
+ */
+function isMediaSyncSource(
+  source: MediaSyncSource | HTMLMediaElement
+): source is MediaSyncSource {
+  return typeof (source as MediaSyncSource).getTimeMs === "function";
+}
@@ -0,0 +1,265 @@
+/**
+ * Script Analyzer
+ *
+ * Computes statistics for a funscript: duration, speed, strokes, idle gaps,
+ * a per-bucket intensity series for heatmaps and per-chapter stats.
+ */
+
+import { Funscript, FunscriptAction, ScriptChapter } from "./device-interface";
+import { getFunscriptChapters } from "./funscript-metadata";
+
+/**
+ * Options for analyzing a funscript
+ */
+export interface AnalyzeFunscriptOptions {
+  bucketCount?: number; // Number of heatmap buckets (default 100, at most 10000), ignored if bucketMs is set
+  bucketMs?: number; // Fixed heatmap bucket size in milliseconds
+  idleThresholdMs?: number; // Minimum duration of a pause to report it as idle gap (default 5000)
+  maxIntensitySpeed?: number; // Speed (units/second) mapped to intensity 1 (default 400)
+}
+
+/**
+ * A period without movement
+ */
+export interface FunscriptIdleGap {
+  startMs: number;
+  endMs: number;
+  durationMs: number;
+}
+
+/**
+ * A heatmap bucket
+ */
+export interface FunscriptHeatmapBucket {
+  startMs: number;
+  endMs: number;
+  averageSpeed: number; // Units per second
+  intensity: number; // Average speed normalized to 0-1
+  actionCount: number;
+}
+
+/**
+ * Movement statistics for a time range
+ */
+export interface FunscriptMovementStats {
+  actionCount: number;
+  averageSpeed: number; // Units per second, over time spent moving
+  maxSpeed: number; // Units per second
+  strokeCount: number; // Full strokes (one up and one down movement)
+  intensity: number; // Average speed normalized to 0-1
+}
+
+/**
+ * Statistics for a chapter from the funscript metadata
+ */
+export interface FunscriptChapterStats
+  extends FunscriptMovementStats,
+    ScriptChapter {}
+
+/**
+ * Statistics for a whole funscript
+ */
+export interface FunscriptStats extends FunscriptMovementStats {
+  durationMs: number; // Time of the last action
+  idleGaps: FunscriptIdleGap[];
+  heatmap: FunscriptHeatmapBucket[];
+  chapters: FunscriptChapterStats[];
+}
+
+const DEFAULT_BUCKET_COUNT = 100;
+const MAX_BUCKET_COUNT = 10000;
+const DEFAULT_IDLE_THRESHOLD_MS = 5000;
+const DEFAULT_MAX_INTENSITY_SPEED = 400;
+
+/**
+ * Analyze a funscript (primary axis)
+ * @param funscript The funscript to analyze
+ * @param options Analysis options
+ */
+export function analyzeFunscript(
+  funscript: Funscript,
+  options: AnalyzeFunscriptOptions = {}
+): FunscriptStats {
+  const actions = [...funscript.actions].sort((a, b) => a.at - b.at);
+  const maxIntensitySpeed =
+    options.maxIntensitySpeed ?? DEFAULT_MAX_INTENSITY_SPEED;
+  const idleThresholdMs = options.idleThresholdMs ?? DEFAULT_IDLE_THRESHOLD_MS;
+  const durationMs = actions.length > 0 ? actions[actions.length - 1].at : 0;
+
+  return {
+    durationMs,
+    ...getMovementStats(actions, idleThresholdMs, maxIntensitySpeed),
+    idleGaps: findIdleGaps(actions, idleThresholdMs),
+    heatmap: buildHeatmap(actions, durationMs, options, maxIntensitySpeed),
+    chapters: getFunscriptChapters(funscript).map((chapter) => ({
+      ...chapter,
+      ...getMovementStats(
+        actions.filter(
+          (action) => action.at >= chapter.startMs && action.at <= chapter.endMs
+        ),
+        idleThresholdMs,
+        maxIntensitySpeed
+      ),
+    })),
+  };
+}
+
+/**
+ * Compute movement statistics for a sorted action sequence.
+ * Segments of at least `idleThresholdMs` are pauses and do not count as
+ * time spent moving.
+ */
+function getMovementStats(
+  actions: FunscriptAction[],
+  idleThresholdMs: number,
+  maxIntensitySpeed: number
+): FunscriptMovementStats {
+  let distance = 0;
+  let movingMs = 0;
+  let maxSpeed = 0;
+  let directionChanges = 0;
+  let lastDirection = 0;
+
+  for (let i = 1; i < actions.length; i++) {
+    const durationMs = actions[i].at - actions[i - 1].at;
+    const delta = actions[i].pos - actions[i - 1].pos;
+
+    if (delta === 0 || durationMs <= 0 || durationMs >= idleThresholdMs) {
+      continue;
+    }
+
+    distance += Math.abs(delta);
+    movingMs += durationMs;
+    maxSpeed = Math.max(maxSpeed, (Math.abs(delta) / durationMs) * 1000);
+
+    const direction = Math.sign(delta);
+    if (direction !== lastDirection) {
+      directionChanges++;
+      lastDirection = direction;
+    }
+  }
+
+  const averageSpeed = movingMs > 0 ? (distance / movingMs) * 1000 : 0;
+
+  return {
+    actionCount: actions.length,
+    averageSpeed,
+    maxSpeed,
+    strokeCount: Math.floor(directionChanges / 2),
+    intensity: Math.min(1, averageSpeed / maxIntensitySpeed),
+  };
+}
+
+/**
+ * Find periods without movement that last at least `thresholdMs`
+ */
+function findIdleGaps(
+  actions: FunscriptAction[],
+  thresholdMs: number
+): FunscriptIdleGap[] {
+  const gaps: FunscriptIdleGap[] = [];
+
+  const pushGap = (startMs: number, endMs: number) => {
+    if (endMs - startMs >= thresholdMs) {
+      gaps.push({ startMs, endMs, durationMs: endMs - startMs });
+    }
+  };
+
+  // Time before the first action counts as idle
+  if (actions.length > 0) {
+    pushGap(0, actions[0].at);
+  }
+
+  let stillSince: number | null = null;
+
+  for (let i = 1; i < actions.length; i++) {
+    const prev = actions[i - 1];
+    const action = actions[i];
+    const isStill = action.pos === prev.pos;
+    const isLongSegment = action.at - prev.at >= thresholdMs;
+
+    if (isStill) {
+      stillSince = stillSince ?? prev.at;
+      continue;
+    }
+
+    if (stillSince !== null) {
+      pushGap(stillSince, prev.at);
+      stillSince = null;
+    }
+
+    // A slow movement over a long segment is a pause between two actions
+    if (isLongSegment) {
+      pushGap(prev.at, action.at);
+    }
+  }
+
+  if (stillSince !== null) {
+    pushGap(stillSince, actions[actions.length - 1].at);
+  }
+
+  return gaps;
+}
+
+/**
+ * Build the heatmap series, spreading every segment over the buckets it overlaps
+ */
+function buildHeatmap(
+  actions: FunscriptAction[],
+  durationMs: number,
+  options: AnalyzeFunscriptOptions,
+  maxIntensitySpeed: number
+): FunscriptHeatmapBucket[] {
+  if (durationMs <= 0) {
+    return [];
+  }
+
+  const requestedBucketMs =
+    options.bucketMs && options.bucketMs > 0
+      ? options.bucketMs
+      : durationMs / Math.max(1, options.bucketCount ?? DEFAULT_BUCKET_COUNT);
+  // Widen the buckets rather than allocating an unbounded series
+  const bucketMs = Math.max(requestedBucketMs, durationMs / MAX_BUCKET_COUNT);
+  const bucketCount = Math.ceil(durationMs / bucketMs);
+
+  const distances = new Array<number>(bucketCount).fill(0);
+  const actionCounts = new Array<number>(bucketCount).fill(0);
+
+  for (const action of actions) {
+    actionCounts[Math.min(bucketCount - 1, Math.floor(action.at / bucketMs))]++;
+  }
+
+  for (let i = 1; i < actions.length; i++) {
+    const start = actions[i - 1].at;
+    const end = actions[i].at;
+    const delta = Math.abs(actions[i].pos - actions[i - 1].pos);
+
+    if (delta === 0 || end <= start) {
+      continue;
+    }
+
+    const firstBucket = Math.floor(start / bucketMs);
+    const lastBucket = Math.min(bucketCount - 1, Math.floor(end / bucketMs));
+
+    for (let b = firstBucket; b <= lastBucket; b++) {
+      const overlap =
+        Math.min(end, (b + 1) * bucketMs) - Math.max(start, b * bucketMs);
+      if (overlap > 0) {
+        distances[b] += (delta * overlap) / (end - start);
+      }
+    }
+  }
+
+  return distances.map((distance, b) => {
+    // Average over the whole bucket so short bursts in long pauses stay cool
+    const averageSpeed = (distance / bucketMs) * 1000;
+
+    return {
+      startMs: b * bucketMs,
+      endMs: Math.min(durationMs, (b + 1) * bucketMs),
+      averageSpeed,
+      intensity: Math.min(1, averageSpeed / maxIntensitySpeed),
+      actionCount: actionCounts[b],
+    };
+  });
+}
@@ -0,0 +1,177 @@
+import { FunscriptAction } from "./device-interface";
+import {
+  MAX_ZIP_ENTRIES,
+  decompressBytes,
+  detectScriptPackaging,
+  readZipEntries,
+} from "./script-archive";
+import { loadScript } from "./script-loader";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+const SCRIPT = JSON.stringify({ actions: actions([0, 0], [100, 100]) });
+
+async function compress(
+  text: string,
+  format: CompressionFormat
+): Promise<Uint8Array> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Build a zip archive of deflated entries
+ */
+async function createZip(files: Record<string, string>): Promise<Uint8Array> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = new TextEncoder().encode(name);
+    const data = await compress(text, "deflate-raw");
+    const size = new TextEncoder().encode(text).length;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, 8, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = createEndOfCentralDirectory(centrals.length, centralSize, offset);
+
+  return new Uint8Array(
+    await new Blob([...locals, ...centrals, end] as BlobPart[]).arrayBuffer()
+  );
+}
+
+function createEndOfCentralDirectory(
+  count: number,
+  size: number,
+  offset: number
+): Uint8Array {
+  const end = new Uint8Array(22);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return end;
+}
+
+describe("detectScriptPackaging", () => {
+  it("detects packaging from magic bytes", async () => {
+    expect(detectScriptPackaging(await compress(SCRIPT, "gzip"))).toBe("gzip");
+    expect(detectScriptPackaging(await compress(SCRIPT, "deflate"))).toBe(
+      "deflate"
+    );
+    expect(detectScriptPackaging(await createZip({ "a.csv": "0,0" }))).toBe(
+      "zip"
+    );
+    expect(detectScriptPackaging(new TextEncoder().encode(SCRIPT))).toBeNull();
+  });
+});
+
+describe("decompressBytes", () => {
+  it("decompresses up to the limit", async () => {
+    const bytes = await decompressBytes(await compress(SCRIPT, "gzip"), "gzip");
+
+    expect(new TextDecoder().decode(bytes)).toBe(SCRIPT);
+  });
+
+  it("fails on content decompressing above the limit", async () => {
+    const bomb = await compress("0".repeat(100000), "gzip");
+
+    await expect(decompressBytes(bomb, "gzip", 1000)).rejects.toThrow(
+      "Decompressed script exceeds 1000 bytes"
+    );
+  });
+});
+
+describe("readZipEntries", () => {
+  it("lists and reads the entries", async () => {
+    const entries = readZipEntries(await createZip({ "a.csv": "0,0" }));
+
+    expect(entries.map(({ name, size }) => ({ name, size }))).toEqual([
+      { name: "a.csv", size: 3 },
+    ]);
+    expect(new TextDecoder().decode(await entries[0].read())).toBe("0,0");
+  });
+
+  it("rejects archives with too many entries", () => {
+    const count = MAX_ZIP_ENTRIES + 1;
+
+    expect(() =>
+      readZipEntries(createEndOfCentralDirectory(count, 0, 0))
+    ).toThrow(`Zip archive has ${count} entries`);
+  });
+});
+
+describe("loadScript with compressed content", () => {
+  it("loads gzip content", async () => {
+    const result = await loadScript({
+      type: "funscript",
+      content: await compress(SCRIPT, "gzip"),
+    });
+
+    expect(result.funscript!.actions).toEqual(actions([0, 0], [100, 100]));
+  });
+
+  it("fails gzip content above maxInflatedBytes", async () => {
+    const result = await loadScript(
+      { type: "funscript", content: await compress(SCRIPT, "gzip") },
+      { maxInflatedBytes: 10 }
+    );
+
+    expect(result).toEqual({
+      success: false,
+      funscript: null,
+      error: "Failed to read gzip script: Decompressed script exceeds 10 bytes",
+    });
+  });
+
+  it("limits the entries of a bundle together", async () => {
+    const content = await createZip({
+      "video.funscript": SCRIPT,
+      "video.twist.funscript": SCRIPT,
+    });
+
+    const loaded = await loadScript({ type: "funscript", content });
+    const limited = await loadScript(
+      { type: "funscript", content },
+      { maxInflatedBytes: SCRIPT.length + 10 }
+    );
+
+    expect(loaded.bundle!.main).toBe("video.funscript");
+    expect(loaded.axes).toEqual(["L0", "R0"]);
+    expect(limited.error).toBe(
+      "Failed to read zip script: Decompressed script exceeds " +
+        `${SCRIPT.length + 10} bytes`
+    );
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Script Archives
+ *
+ * Compressed script payloads (gzip/deflate) and zip bundles holding a main
+ * script with its variants and axis scripts. Decompression uses the
+ * platform DecompressionStream; zip archives are read with a minimal reader
+ * supporting stored and deflated entries.
+ */
+
+import { Funscript } from "./device-interface";
+import { PRIMARY_AXIS, getAxisFromUrl } from "./funscript-axes";
+
+/**
+ * Packaging of a binary script payload
+ */
+export type ScriptPackaging = "gzip" | "deflate" | "zip";
+
+/**
+ * A script found in a zip bundle
+ */
+export interface ScriptBundleEntry {
+  name: string; // Path of the entry in the archive
+  axis: string; // Axis id from the file name (L0 for main scripts and variants)
+  format?: string; // Format the entry was parsed as
+  funscript: Funscript; // Parsed script, before options and transforms
+}
+
+/**
+ * Contents of a zip bundle
+ */
+export interface ScriptBundle {
+  main: string; // Name of the entry loaded as the main script
+  entries: ScriptBundleEntry[]; // Every script found in the archive
+}
+
+/**
+ * A file in a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  size: number; // Uncompressed size in bytes, as declared by the archive
+  read: (maxBytes?: number) => Promise<Uint8Array>; // Read and decompress the entry data
+}
+
+/**
+ * Default limit for the decompressed size of a script, or of all scripts
+ * in a zip bundle together
+ */
+export const DEFAULT_MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Most entries read from a zip archive
+ */
+export const MAX_ZIP_ENTRIES = 1000;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/**
+ * Detect a compressed or archived payload from its magic bytes
+ * @returns The packaging, or null for plain content
+ */
+export function detectScriptPackaging(
+  bytes: Uint8Array
+): ScriptPackaging | null {
+  if (bytes.length < 4) {
+    return null;
+  }
+
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return "gzip";
+  }
+
+  if (
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    bytes[2] === 0x03 &&
+    bytes[3] === 0x04
+  ) {
+    return "zip";
+  }
+
+  // zlib header: deflate with a 32K window, header checksum multiple of 31
+  if (bytes[0] === 0x78 && ((bytes[0] << 8) | bytes[1]) % 31 === 0) {
+    return "deflate";
+  }
+
+  return null;
+}
+
+/**
+ * Decompress gzip, zlib (deflate) or raw deflate data
+ * @param bytes Compressed data
+ * @param format Compression format
+ * @param maxBytes Stop decompressing and fail above this size
+ *   (default DEFAULT_MAX_INFLATED_BYTES)
+ * @throws Error if DecompressionStream is not available or the data
+ *   decompresses to more than maxBytes
+ */
+export async function decompressBytes(
+  bytes: Uint8Array,
+  format: CompressionFormat,
+  maxBytes: number = DEFAULT_MAX_INFLATED_BYTES
+): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("DecompressionStream is not available in this environment");
+  }
+
+  const reader = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error(getInflatedSizeError(maxBytes));
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return result;
+}
+
+/**
+ * List the files of a zip archive
+ * @throws Error if the archive is malformed or uses unsupported features
+ */
+export function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is followed by a comment of up to 64KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+
+  if (end < 0) {
+    throw new Error("Invalid zip archive: end of central directory not found");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  if (count > MAX_ZIP_ENTRIES) {
+    throw new Error(
+      `Zip archive has ${count} entries, at most ${MAX_ZIP_ENTRIES} are read`
+    );
+  }
+
+  if (offset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+
+    entries.push({
+      name,
+      size,
+      read: async (maxBytes = DEFAULT_MAX_INFLATED_BYTES) => {
+        if (flags & 0x1) {
+          throw new Error(`Encrypted zip entry: ${name}`);
+        }
+
+        if (view.getUint32(localOffset, true) !== ZIP_LOCAL_HEADER) {
+          throw new Error(`Invalid zip archive: corrupt entry ${name}`);
+        }
+
+        const dataStart =
+          localOffset +
+          30 +
+          view.getUint16(localOffset + 26, true) +
+          view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+          if (data.length > maxBytes) {
+            throw new Error(getInflatedSizeError(maxBytes));
+          }
+          return data;
+        }
+        if (method === 8) {
+          return decompressBytes(data, "deflate-raw", maxBytes);
+        }
+        throw new Error(
+          `Unsupported zip compression method ${method}: ${name}`
+        );
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Pick the main script of a bundle by naming convention:
+ * axis scripts (`video.twist.funscript`) are skipped, a script named after
+ * the archive wins, otherwise the script with the simplest name
+ * (`video.funscript` over `video.soft.funscript`), funscripts first.
+ * @param names Script entry names
+ * @param archiveName Archive file name or URL, if known
+ * @returns The main entry name, or null if there are no main scripts
+ */
+export function pickMainScript(
+  names: string[],
+  archiveName?: string
+): string | null {
+  const candidates = names.filter(
+    (name) => getAxisFromUrl(name) === PRIMARY_AXIS
+  );
+
+  if (archiveName) {
+    const archiveBase = getScriptBaseName(archiveName.split(/[?#]/)[0]);
+    const match = candidates.find(
+      (name) => getScriptBaseName(name) === archiveBase
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  const rank = (name: string) => {
+    const fileName = name.split("/").pop() ?? name;
+    return [
+      name.split("/").length,
+      fileName.split(".").length,
+      fileName.toLowerCase().endsWith(".funscript") ? 0 : 1,
+      name.length,
+    ];
+  };
+
+  const sorted = [...candidates].sort((a, b) => {
+    const [rankA, rankB] = [rank(a), rank(b)];
+    const diff = rankA.findIndex((value, i) => value !== rankB[i]);
+    return diff < 0 ? a.localeCompare(b) : rankA[diff] - rankB[diff];
+  });
+
+  return sorted[0] ?? null;
+}
+
+/**
+ * Get the file name of a script without directories and its extension
+ * (`pack/video.funscript` -> `video`)
+ */
+export function getScriptBaseName(name: string): string {
+  const fileName = name.split("/").pop() ?? name;
+  const dotIndex = fileName.lastIndexOf(".");
+
+  return dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+}
+
+/**
+ * Error message for content decompressing to more than maxBytes
+ */
+function getInflatedSizeError(maxBytes: number): string {
+  return `Decompressed script exceeds ${maxBytes} bytes`;
+}
@@ -0,0 +1,165 @@
+/**
+ * Script Cache Storage
+ *
+ * Persistent storage adapters for ScriptCache:
+ * - IndexedDB in browsers
+ * - The filesystem in Node (the fs module is passed in, so bundles for
+ *   browsers and React Native never import it)
+ */
+
+import { ScriptCacheEntry, ScriptCacheStorage } from "./script-cache";
+
+/**
+ * IndexedDB storage for browsers
+ */
+export class IndexedDBScriptCacheStorage implements ScriptCacheStorage {
+  private dbName: string;
+  private storeName = "scripts";
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param dbName Database name (default "ive-connect-script-cache")
+   */
+  constructor(dbName: string = "ive-connect-script-cache") {
+    this.dbName = dbName;
+  }
+
+  async get(id: string): Promise<ScriptCacheEntry | undefined> {
+    return this.request("readonly", (store) => store.get(id));
+  }
+
+  async set(id: string, entry: ScriptCacheEntry): Promise<void> {
+    await this.request("readwrite", (store) => store.put(entry, id));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const exists = (await this.get(id)) !== undefined;
+    await this.request("readwrite", (store) => store.delete(id));
+    return exists;
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request("readonly", (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  async clear(): Promise<void> {
+    await this.request("readwrite", (store) => store.clear());
+  }
+
+  /**
+   * Run a request on the object store
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = fn(
+        db.transaction(this.storeName, mode).objectStore(this.storeName)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Open the database on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+          reject(new Error("IndexedDB is not available in this environment"));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () =>
+          request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return this.db;
+  }
+}
+
+/**
+ * The subset of Node's `fs/promises` used by FileSystemScriptCacheStorage
+ */
+export interface ScriptCacheFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+  unlink(path: string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, options: { recursive: boolean }): Promise<unknown>;
+}
+
+/**
+ * Filesystem storage options
+ */
+export interface FileSystemScriptCacheStorageOptions {
+  directory: string; // Cache directory, created on first write
+  fs: ScriptCacheFileSystem; // e.g. require("fs/promises")
+}
+
+/**
+ * Filesystem storage for Node: one JSON file per script
+ */
+export class FileSystemScriptCacheStorage implements ScriptCacheStorage {
+  private directory: string;
+  private fs: ScriptCacheFileSystem;
+
+  constructor(options: FileSystemScriptCacheStorageOptions) {
+    this.directory = options.directory.replace(/[\\/]+$/, "");
+    this.fs = options.fs;
+  }
+
+  async get(id: string): Promise<ScriptCacheEntry | undefined> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.getPath(id), "utf8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(id: string, entry: ScriptCacheEntry): Promise<void> {
+    await this.fs.mkdir(this.directory, { recursive: true });
+    await this.fs.writeFile(this.getPath(id), JSON.stringify(entry), "utf8");
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.fs.unlink(this.getPath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await this.fs.readdir(this.directory);
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length));
+    } catch {
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all((await this.keys()).map((id) => this.delete(id)));
+  }
+
+  /**
+   * Path of the file holding an entry
+   */
+  private getPath(id: string): string {
+    return `${this.directory}/${id}.json`;
+  }
+}
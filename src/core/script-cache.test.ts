@@ -0,0 +1,153 @@
+import {
+  MemoryScriptCacheStorage,
+  ScriptCache,
+  getScriptCacheKey,
+  hashScriptContent,
+} from "./script-cache";
+
+const funscript = { actions: [{ at: 0, pos: 0 }] };
+
+function entry(size: number, hash = "hash") {
+  return { hash, funscript, size };
+}
+
+describe("getScriptCacheKey", () => {
+  it("uses the plain URL without options", () => {
+    expect(getScriptCacheKey("https://x/a.funscript")).toBe(
+      "https://x/a.funscript"
+    );
+  });
+
+  it("adds the bundle entry and format", () => {
+    expect(
+      getScriptCacheKey("https://x/a.zip", {
+        entry: "a.funscript",
+        format: "csv",
+      })
+    ).toBe("https://x/a.zip entry=a.funscript&format=csv");
+  });
+
+  it("keeps requests with different headers apart", () => {
+    const alice = getScriptCacheKey("https://x/a", {
+      headers: { Authorization: "Bearer alice" },
+    });
+    const bob = getScriptCacheKey("https://x/a", {
+      headers: { Authorization: "Bearer bob" },
+    });
+
+    expect(alice).not.toBe(bob);
+    expect(alice).not.toBe("https://x/a");
+  });
+
+  it("ignores header order and name casing", () => {
+    expect(
+      getScriptCacheKey("https://x/a", {
+        headers: { "X-Token": "1", Authorization: "a" },
+      })
+    ).toBe(
+      getScriptCacheKey("https://x/a", {
+        headers: [
+          ["authorization", "a"],
+          ["x-token", "1"],
+        ],
+      })
+    );
+  });
+});
+
+describe("hashScriptContent", () => {
+  it("hashes strings and their bytes alike", async () => {
+    const text = '{"actions":[]}';
+
+    expect(await hashScriptContent(text)).toBe(
+      await hashScriptContent(new TextEncoder().encode(text))
+    );
+    expect(await hashScriptContent(text)).not.toBe(
+      await hashScriptContent(text + " ")
+    );
+  });
+});
+
+describe("ScriptCache", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns copies of stored entries", async () => {
+    const cache = new ScriptCache();
+    await cache.set("a", entry(10));
+
+    const cached = await cache.get("a");
+    cached!.funscript.actions.push({ at: 1, pos: 1 });
+
+    expect((await cache.get("a"))!.funscript.actions).toHaveLength(1);
+    expect(await cache.get("b")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entries over maxEntries", async () => {
+    const cache = new ScriptCache({ maxEntries: 2 });
+
+    await cache.set("a", entry(1));
+    now = 2000;
+    await cache.set("b", entry(1));
+    now = 3000;
+    await cache.touch("a");
+    now = 4000;
+    await cache.set("c", entry(1));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+    expect((await cache.getStats()).evictions).toBe(1);
+  });
+
+  it("evicts entries until the total size fits maxSize", async () => {
+    const cache = new ScriptCache({ maxSize: 100 });
+
+    await cache.set("a", entry(60));
+    now = 2000;
+    await cache.set("b", entry(30));
+    now = 3000;
+    await cache.set("c", entry(30));
+
+    const stats = await cache.getStats();
+    expect(stats.entries).toBe(2);
+    expect(stats.size).toBe(60);
+    expect(await cache.get("a")).toBeUndefined();
+  });
+
+  it("stores new validators and restarts the ttl on revalidation", async () => {
+    const cache = new ScriptCache({ ttlMs: 500 });
+    await cache.set("a", { ...entry(1), etag: '"1"' });
+
+    now = 1600;
+    expect(cache.isFresh((await cache.get("a"))!)).toBe(false);
+
+    await cache.touch("a", { etag: '"2"' });
+    const revalidated = (await cache.get("a"))!;
+
+    expect(revalidated.etag).toBe('"2"');
+    expect(revalidated.storedAt).toBe(1600);
+    expect(cache.isFresh(revalidated)).toBe(true);
+    expect(await cache.getStats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      revalidated: 1,
+    });
+  });
+
+  it("rebuilds its index from existing storage", async () => {
+    const storage = new MemoryScriptCacheStorage();
+    await new ScriptCache({ storage }).set("a", entry(5));
+
+    const stats = await new ScriptCache({ storage }).getStats();
+    expect(stats).toMatchObject({ entries: 1, size: 5 });
+  });
+});
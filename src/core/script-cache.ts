@@ -0,0 +1,362 @@
+/**
+ * Script Cache
+ *
+ * Caches parsed scripts by URL so repeated loads skip downloading and
+ * parsing. Entries keep the response ETag/Last-Modified for conditional
+ * requests and a content hash, so unchanged content is never parsed twice.
+ * Storage is pluggable: in memory by default, IndexedDB or the filesystem
+ * with the adapters in script-cache-storage.
+ */
+
+import { Funscript } from "./device-interface";
+import type { ScriptBundle } from "./script-archive";
+
+/**
+ * A cached script
+ */
+export interface ScriptCacheEntry {
+  url: string; // Cache key: script URL (plus bundle entry / format, if set)
+  hash: string; // Hash of the raw script content
+  funscript: Funscript; // Parsed script, before options and transforms
+  format?: string; // Format the script was parsed as
+  bundle?: ScriptBundle; // Bundle contents for zip archives
+  etag?: string; // ETag response header
+  lastModified?: string; // Last-Modified response header
+  size: number; // Raw content size in bytes
+  storedAt: number; // Time the entry was stored or revalidated
+  lastAccessed: number; // Time the entry was last used
+}
+
+/**
+ * Storage backend for the script cache.
+ * Ids are derived from the cache key, entries are stored as given.
+ */
+export interface ScriptCacheStorage {
+  get(id: string): Promise<ScriptCacheEntry | undefined>;
+  set(id: string, entry: ScriptCacheEntry): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Script cache options
+ */
+export interface ScriptCacheOptions {
+  storage?: ScriptCacheStorage; // Storage backend (default in memory)
+  maxEntries?: number; // Least recently used entries above this are evicted (default 50)
+  maxSize?: number; // Total raw content size in bytes (default 50MB)
+  ttlMs?: number; // Entries younger than this are used without revalidating (default 0)
+}
+
+/**
+ * Script cache statistics
+ */
+export interface ScriptCacheStats {
+  entries: number;
+  size: number; // Total raw content size in bytes
+  hits: number; // Loads served from the cache
+  misses: number; // Loads that had to parse the script
+  revalidated: number; // Hits confirmed by the server (304 or same content)
+  evictions: number;
+}
+
+/**
+ * Validators of a fetched response
+ */
+export interface ScriptCacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * In-memory storage (lost on reload)
+ */
+export class MemoryScriptCacheStorage implements ScriptCacheStorage {
+  private entries: Map<string, ScriptCacheEntry> = new Map();
+
+  async get(id: string): Promise<ScriptCacheEntry | undefined> {
+    return this.entries.get(id);
+  }
+
+  async set(id: string, entry: ScriptCacheEntry): Promise<void> {
+    this.entries.set(id, entry);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Script cache with LRU eviction
+ */
+export class ScriptCache {
+  private storage: ScriptCacheStorage;
+  private maxEntries: number;
+  private maxSize: number;
+  private ttlMs: number;
+
+  // Size and access time of every stored entry, loaded once from storage
+  private index: Map<string, { size: number; lastAccessed: number }> | null =
+    null;
+  private stats = { hits: 0, misses: 0, revalidated: 0, evictions: 0 };
+
+  constructor(options: ScriptCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryScriptCacheStorage();
+    this.maxEntries = options.maxEntries ?? 50;
+    this.maxSize = options.maxSize ?? 50 * 1024 * 1024;
+    this.ttlMs = options.ttlMs ?? 0;
+  }
+
+  /**
+   * Get a cached script
+   * @param key Script URL (see getScriptCacheKey)
+   * @returns A copy of the entry, safe to modify
+   */
+  async get(key: string): Promise<ScriptCacheEntry | undefined> {
+    const entry = await this.storage.get(hashString(key));
+    return entry?.url === key ? cloneEntry(entry) : undefined;
+  }
+
+  /**
+   * Whether an entry can be used without revalidating it with the server
+   */
+  isFresh(entry: ScriptCacheEntry): boolean {
+    return this.ttlMs > 0 && Date.now() - entry.storedAt < this.ttlMs;
+  }
+
+  /**
+   * Store a parsed script, evicting least recently used entries over the limits
+   */
+  async set(
+    key: string,
+    entry: Omit<ScriptCacheEntry, "url" | "storedAt" | "lastAccessed">
+  ): Promise<void> {
+    const index = await this.getIndex();
+    const now = Date.now();
+    const id = hashString(key);
+
+    await this.storage.set(
+      id,
+      cloneEntry({ ...entry, url: key, storedAt: now, lastAccessed: now })
+    );
+    index.set(id, { size: entry.size, lastAccessed: now });
+    this.stats.misses++;
+
+    await this.evict();
+  }
+
+  /**
+   * Record the use of a cached entry
+   * @param key Script URL
+   * @param validators New validators when the server confirmed the entry
+   */
+  async touch(key: string, validators?: ScriptCacheValidators): Promise<void> {
+    const index = await this.getIndex();
+    const id = hashString(key);
+    const now = Date.now();
+
+    this.stats.hits++;
+    const info = index.get(id);
+    if (info) {
+      info.lastAccessed = now;
+    }
+
+    if (validators) {
+      this.stats.revalidated++;
+
+      const entry = await this.storage.get(id);
+      if (entry) {
+        await this.storage.set(id, {
+          ...entry,
+          etag: validators.etag ?? entry.etag,
+          lastModified: validators.lastModified ?? entry.lastModified,
+          storedAt: now,
+          lastAccessed: now,
+        });
+      }
+    }
+  }
+
+  /**
+   * Remove a cached script
+   * @returns Whether the script was cached
+   */
+  async delete(key: string): Promise<boolean> {
+    const index = await this.getIndex();
+    const id = hashString(key);
+
+    index.delete(id);
+    return this.storage.delete(id);
+  }
+
+  /**
+   * Remove every cached script
+   */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.index = new Map();
+  }
+
+  /**
+   * Evict least recently used entries until the cache is within its limits
+   * @returns Number of evicted entries
+   */
+  async evict(): Promise<number> {
+    const index = await this.getIndex();
+    const byAge = Array.from(index.entries()).sort(
+      ([, a], [, b]) => a.lastAccessed - b.lastAccessed
+    );
+
+    let size = byAge.reduce((total, [, info]) => total + info.size, 0);
+    let evicted = 0;
+
+    for (const [id, info] of byAge) {
+      if (index.size <= this.maxEntries && size <= this.maxSize) {
+        break;
+      }
+
+      await this.storage.delete(id);
+      index.delete(id);
+      size -= info.size;
+      evicted++;
+    }
+
+    this.stats.evictions += evicted;
+    return evicted;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  async getStats(): Promise<ScriptCacheStats> {
+    const index = await this.getIndex();
+    let size = 0;
+    index.forEach((info) => (size += info.size));
+
+    return { entries: index.size, size, ...this.stats };
+  }
+
+  /**
+   * Load the entry index from storage on first use
+   */
+  private async getIndex(): Promise<
+    Map<string, { size: number; lastAccessed: number }>
+  > {
+    if (!this.index) {
+      const index = new Map<string, { size: number; lastAccessed: number }>();
+
+      for (const id of await this.storage.keys()) {
+        const entry = await this.storage.get(id);
+        if (entry) {
+          index.set(id, { size: entry.size, lastAccessed: entry.lastAccessed });
+        }
+      }
+
+      this.index = this.index ?? index;
+    }
+
+    return this.index;
+  }
+}
+
+/**
+ * Build the cache key of a script: its URL, plus the bundle entry and
+ * explicit format when they change what is parsed, and a hash of the request
+ * headers so responses fetched with different credentials are kept apart
+ */
+export function getScriptCacheKey(
+  url: string,
+  options: { entry?: string; format?: string; headers?: HeadersInit } = {}
+): string {
+  const params = [
+    options.entry ? `entry=${options.entry}` : "",
+    options.format ? `format=${options.format}` : "",
+    options.headers ? `headers=${hashHeaders(options.headers)}` : "",
+  ].filter(Boolean);
+
+  return params.length > 0 ? `${url} ${params.join("&")}` : url;
+}
+
+/**
+ * Hash script content: SHA-256 where Web Crypto is available, otherwise
+ * two 32-bit FNV-1a hashes with different seeds (not collision resistant)
+ * @returns Hex digest
+ */
+export async function hashScriptContent(
+  content: Uint8Array | string
+): Promise<string> {
+  const bytes =
+    typeof content === "string" ? new TextEncoder().encode(content) : content;
+  const subtle = typeof crypto !== "undefined" ? crypto.subtle : undefined;
+
+  if (subtle) {
+    const digest = await subtle.digest("SHA-256", bytes as BufferSource);
+    return toHex(new Uint8Array(digest));
+  }
+
+  return fnv1aPair(bytes);
+}
+
+/**
+ * Hash request headers independent of their order and name casing
+ */
+function hashHeaders(init: HeadersInit): string {
+  const lines: string[] = [];
+  new Headers(init).forEach((value, name) => lines.push(`${name}:${value}`));
+
+  return fnv1aPair(new TextEncoder().encode(lines.sort().join("\n")));
+}
+
+/**
+ * Synchronous string hash used for storage ids
+ */
+function hashString(value: string): string {
+  return fnv1a(new TextEncoder().encode(value), 0x811c9dc5);
+}
+
+/**
+ * Two 32-bit FNV-1a hashes with different seeds as 16 hex characters
+ */
+function fnv1aPair(bytes: Uint8Array): string {
+  return fnv1a(bytes, 0x811c9dc5) + fnv1a(bytes, 0x01000193);
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex characters
+ */
+function fnv1a(bytes: Uint8Array, seed: number): string {
+  let hash = seed >>> 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash.toString(16).padStart(8, "0");
+}
+
+/**
+ * Format bytes as lower-case hex
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * Deep copy an entry so callers can't modify the cached script
+ */
+function cloneEntry(entry: ScriptCacheEntry): ScriptCacheEntry {
+  return JSON.parse(JSON.stringify(entry));
+}
@@ -0,0 +1,203 @@
+import { FunscriptAction } from "./device-interface";
+import { SCRIPT_LOAD_ABORTED, loadScript } from "./script-loader";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+const CSV = "0,0\n100,100";
+const JSON_SCRIPT = JSON.stringify({ actions: actions([0, 0], [100, 100]) });
+const SCRIPT_URL = "https://example.com/video.funscript";
+
+/**
+ * Fetch that never answers, rejecting once its signal aborts
+ */
+function hangingFetch(
+  _input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () =>
+      reject(new Error("The operation was aborted"))
+    );
+  });
+}
+
+describe("loadScript", () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(async () => new Response(JSON_SCRIPT));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe("content", () => {
+    it("detects the format of a File from its name", async () => {
+      const file = new File([CSV], "video.csv");
+      const result = await loadScript({ type: "", content: file });
+
+      expect(result.format).toBe("csv");
+      expect(result.funscript!.actions).toEqual(actions([0, 0], [100, 100]));
+    });
+
+    it("detects the format of a Blob from its type", async () => {
+      const blob = new Blob([CSV], { type: "text/csv" });
+
+      expect((await loadScript({ type: "", content: blob })).format).toBe(
+        "csv"
+      );
+    });
+
+    it("decodes ArrayBuffers and typed arrays", async () => {
+      const bytes = new TextEncoder().encode(JSON_SCRIPT);
+
+      for (const content of [bytes.buffer, bytes]) {
+        const result = await loadScript({ type: "funscript", content });
+
+        expect(result.success).toBe(true);
+        expect(result.funscript!.actions).toHaveLength(2);
+      }
+    });
+
+    it("parses raw text", async () => {
+      const result = await loadScript({ type: "csv", content: CSV });
+
+      expect(result.funscript!.actions).toEqual(actions([0, 0], [100, 100]));
+    });
+  });
+
+  describe("data URLs", () => {
+    it("decodes base64 and percent-encoded data without fetching", async () => {
+      const base64 = `data:application/json;base64,${btoa(JSON_SCRIPT)}`;
+      const text = `data:text/csv,${encodeURIComponent(CSV)}`;
+
+      expect((await loadScript({ type: "", url: base64 })).format).toBe(
+        "funscript"
+      );
+      expect((await loadScript({ type: "", url: text })).format).toBe("csv");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("reports malformed data URLs", async () => {
+      expect(await loadScript({ type: "", url: "data:text/csv" })).toEqual({
+        success: false,
+        funscript: null,
+        error: "Invalid data URL",
+      });
+    });
+  });
+
+  describe("fetching", () => {
+    it("sends the request headers", async () => {
+      await loadScript({
+        type: "funscript",
+        url: "https://example.com/video.funscript",
+        fetchOptions: { headers: { Authorization: "Bearer token" } },
+      });
+
+      const init: RequestInit = fetchMock.mock.calls[0][1];
+      expect(new Headers(init.headers).get("authorization")).toBe(
+        "Bearer token"
+      );
+    });
+
+    it("uses the Content-Type to pick the format", async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(CSV, { headers: { "content-type": "text/csv" } })
+      );
+
+      const result = await loadScript({
+        type: "",
+        url: "https://example.com/script",
+      });
+
+      expect(result.format).toBe("csv");
+    });
+
+    it("reports failed requests", async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response("", { status: 404, statusText: "Not Found" })
+      );
+
+      expect(
+        await loadScript({ type: "", url: "https://example.com/missing" })
+      ).toMatchObject({
+        success: false,
+        error: "Failed to fetch script: 404 Not Found",
+      });
+    });
+  });
+
+  describe("abort and timeout", () => {
+    it("loads without a signal or progress callback", async () => {
+      const result = await loadScript({ type: "funscript", url: SCRIPT_URL });
+
+      expect(result.success).toBe(true);
+      expect(result.funscript!.actions).toEqual(actions([0, 0], [100, 100]));
+    });
+
+    it("doesn't fetch with an aborted signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await loadScript(
+        { type: "funscript", url: SCRIPT_URL },
+        { signal: controller.signal }
+      );
+
+      expect(result).toEqual({
+        success: false,
+        funscript: null,
+        error: SCRIPT_LOAD_ABORTED,
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("cancels the download when the signal aborts", async () => {
+      fetchMock.mockImplementation(hangingFetch);
+      const controller = new AbortController();
+
+      const loading = loadScript(
+        { type: "funscript", url: SCRIPT_URL },
+        { signal: controller.signal }
+      );
+      controller.abort();
+
+      expect((await loading).error).toBe(SCRIPT_LOAD_ABORTED);
+    });
+
+    it("gives up on downloads taking longer than the timeout", async () => {
+      fetchMock.mockImplementation(hangingFetch);
+
+      const result = await loadScript(
+        { type: "funscript", url: SCRIPT_URL },
+        { fetchTimeoutMs: 20 }
+      );
+
+      expect(result.error).toBe("Script download timed out after 20ms");
+    });
+
+    it("reports download and parsing progress", async () => {
+      const bytes = new TextEncoder().encode(JSON_SCRIPT).length;
+      fetchMock.mockResolvedValueOnce(
+        new Response(JSON_SCRIPT, {
+          headers: { "content-length": String(bytes) },
+        })
+      );
+      const onProgress = jest.fn();
+
+      await loadScript({ type: "funscript", url: SCRIPT_URL }, { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { stage: "downloading", loaded: 0 },
+        { stage: "downloading", loaded: bytes, total: bytes },
+        { stage: "parsing" },
+      ]);
+    });
+  });
+});
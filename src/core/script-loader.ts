@@ -2,15 +2,80 @@
  * Script Loader
  *
  * Centralized script fetching and parsing.
- * Handles fetching from URLs, parsing CSV/JSON, and applying transformations.
+ * Handles fetching from URLs, parsing CSV/JSON and legacy formats, and
+ * applying transformations (see script-transforms for the transform pipeline).
  */
 
 import {
   Funscript,
   FunscriptAction,
+  RotationAction,
+  ScriptBookmark,
+  ScriptChapter,
+  ScriptContent,
   ScriptData,
+  ScriptFetchOptions,
+  ScriptLoadProgress,
   ScriptOptions,
 } from "./device-interface";
+import {
+  FUNSCRIPT_AXIS_NAMES,
+  PRIMARY_AXIS,
+  getAxisActions,
+  getAxisFromUrl,
+  getFunscriptAxisIds,
+  getSiblingAxisUrl,
+  normalizeFunscriptAxes,
+  resolveAxisId,
+  setAxisActions,
+} from "./funscript-axes";
+import {
+  getFunscriptBookmarks,
+  getFunscriptChapters,
+  normalizeFunscriptMetadata,
+} from "./funscript-metadata";
+import {
+  ScriptFormatHints,
+  getScriptFormatByExtension,
+  getUrlExtension,
+  registerScriptFormat,
+  resolveScriptFormats,
+  stripCompressionExtension,
+} from "./format-registry";
+import {
+  detectLegacyFormat,
+  parseKiirooScript,
+  parseLaunchScript,
+  parseRealTouchScript,
+  parseVirtualRealPornScript,
+} from "./legacy-formats";
+import {
+  ScriptBundle,
+  ScriptBundleEntry,
+  DEFAULT_MAX_INFLATED_BYTES,
+  decompressBytes,
+  detectScriptPackaging,
+  pickMainScript,
+  readZipEntries,
+} from "./script-archive";
+import { FunscriptStats, analyzeFunscript } from "./script-analyzer";
+import {
+  FunscriptSimplifyReport,
+  simplifyFunscript,
+} from "./script-simplifier";
+import {
+  ScriptCache,
+  ScriptCacheEntry,
+  ScriptCacheValidators,
+  getScriptCacheKey,
+  hashScriptContent,
+} from "./script-cache";
+import {
+  ScriptDiagnostic,
+  formatValidationErrors,
+  validateFunscript,
+} from "./script-validator";
+import { applyScriptTransforms } from "./script-transforms";
 
 /**
  * Parse CSV content to Funscript format
@@ -52,7 +117,79 @@ export function parseCSVToFunscript(csvText: string): Funscript {
 }
 
 /**
- * Apply inversion to funscript actions
+ * Check whether CSV content is a Vorze rotation script
+ * (time in tenths of a second, direction 0/1, speed 0-100)
+ */
+export function isVorzeCSV(csvText: string): boolean {
+  const rows = csvText
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !isNaN(parseFloat(line)))
+    .map((line) => line.split(",").map((column) => column.trim()));
+
+  return (
+    rows.length > 0 &&
+    rows.every(
+      (columns) =>
+        columns.length >= 3 &&
+        (columns[1] === "0" || columns[1] === "1") &&
+        !isNaN(parseFloat(columns[2]))
+    )
+  );
+}
+
+/**
+ * Parse a Vorze rotation CSV script.
+ * Each line is `time,direction,speed`: time in tenths of a second,
+ * direction 0 = clockwise / 1 = counter-clockwise, speed 0-100.
+ */
+export function parseVorzeCSV(csvText: string): Funscript {
+  const rotation: RotationAction[] = [];
+
+  for (const line of csvText.split(/\r?\n/)) {
+    const columns = line.split(",").map((column) => column.trim());
+    if (columns.length < 3) continue;
+
+    const time = parseFloat(columns[0]);
+    const direction = parseInt(columns[1], 10);
+    const speed = parseFloat(columns[2]);
+
+    if (!isNaN(time) && !isNaN(direction) && !isNaN(speed)) {
+      rotation.push({
+        at: Math.round(time * 100),
+        speed: Math.min(100, Math.max(0, Math.round(speed))),
+        clockwise: direction === 0,
+      });
+    }
+  }
+
+  rotation.sort((a, b) => a.at - b.at);
+
+  return {
+    actions: [],
+    rotation,
+    metadata: { convertedFrom: "vorze" },
+  };
+}
+
+/**
+ * Parse CSV content as a Vorze rotation script or a two-column funscript CSV
+ */
+function parseCSVScript(csvText: string, type?: string): Funscript {
+  return type === "vorze" || isVorzeCSV(csvText)
+    ? parseVorzeCSV(csvText)
+    : parseCSVToFunscript(csvText);
+}
+
+/**
+ * Check whether a funscript has anything to play: actions or a rotation track
+ */
+export function hasPlayableActions(funscript: Funscript): boolean {
+  return funscript.actions.length > 0 || (funscript.rotation?.length ?? 0) > 0;
+}
+
+/**
+ * Apply inversion to funscript actions (primary axis only)
  */
 export function invertFunscript(funscript: Funscript): Funscript {
   return {
@@ -89,6 +226,81 @@ export function isValidFunscript(content: unknown): content is Funscript {
   );
 }
 
+// ============================================
+// Built-in script formats
+// Registered least specific first - later formats are sniffed first
+// ============================================
+
+const CSV_LINE = /^\s*-?\d+(\.\d+)?(\s*,\s*-?\d+(\.\d+)?)+\s*$/;
+
+registerScriptFormat({
+  name: "csv",
+  extensions: ["csv"],
+  mimeTypes: ["text/csv"],
+  sniff: (text) => {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+    const rows =
+      lines.length > 0 && !CSV_LINE.test(lines[0]) ? lines.slice(1) : lines;
+    return rows.length > 0 && rows.every((line) => CSV_LINE.test(line));
+  },
+  parse: (text) => parseCSVScript(text),
+});
+
+registerScriptFormat({
+  name: "vorze",
+  sniff: isVorzeCSV,
+  parse: parseVorzeCSV,
+});
+
+registerScriptFormat({
+  name: "realtouch",
+  extensions: ["realtouch", "ott"],
+  sniff: (text) => detectLegacyFormat(text) === "realtouch",
+  parse: parseRealTouchScript,
+});
+
+registerScriptFormat({
+  name: "ini",
+  extensions: ["ini"],
+  sniff: (text) => detectLegacyFormat(text) === "ini",
+  parse: parseVirtualRealPornScript,
+});
+
+registerScriptFormat({
+  name: "kiiroo",
+  extensions: ["kiiroo"],
+  sniff: (text) => detectLegacyFormat(text) === "kiiroo",
+  parse: parseKiirooScript,
+});
+
+registerScriptFormat({
+  name: "launch",
+  extensions: ["launch"],
+  sniff: (text) => /^\s*\[\s*\{/.test(text),
+  parse: parseLaunchScript,
+});
+
+registerScriptFormat({
+  name: "funscript",
+  extensions: ["funscript", "json"],
+  mimeTypes: ["application/json"],
+  sniff: (text) => /^\s*\{/.test(text) && text.includes('"actions"'),
+  parse: (text) => {
+    const parsed = JSON.parse(text);
+
+    if (!isValidFunscript(parsed)) {
+      throw new Error("missing or invalid actions array");
+    }
+
+    return parsed;
+  },
+});
+
+/**
+ * Error reported when a script load is cancelled through its AbortSignal
+ */
+export const SCRIPT_LOAD_ABORTED = "Script load aborted";
+
 /**
  * Result of loading a script
  */
@@ -96,79 +308,681 @@ export interface LoadScriptResult {
   success: boolean;
   funscript: Funscript | null;
   error?: string;
+  format?: string; // Name of the format the script was parsed as
+  bundle?: ScriptBundle; // Scripts found when loading from a zip archive
+  axes?: string[]; // Ids of the axes found in the script
+  chapters?: ScriptChapter[]; // Chapters from the metadata, sorted by start time
+  bookmarks?: ScriptBookmark[]; // Bookmarks from the metadata, sorted by time
+  simplification?: FunscriptSimplifyReport; // Error introduced by simplifying, if requested
+  stats?: FunscriptStats; // Script statistics if requested
+  diagnostics?: ScriptDiagnostic[]; // Validation diagnostics if requested
+}
+
+/**
+ * Parse script text with the registered formats picked from the hints.
+ * Candidates are tried in order until one yields something to play.
+ * @param text Script content
+ * @param hints Explicit format, script type, Content-Type and URL
+ */
+export function parseScriptText(
+  text: string,
+  hints: ScriptFormatHints = {}
+): LoadScriptResult {
+  let emptyResult: LoadScriptResult | null = null;
+  let firstError: string | undefined;
+
+  try {
+    for (const format of resolveScriptFormats(text, hints)) {
+      try {
+        const funscript = format.parse(text);
+        const result = { success: true, funscript, format: format.name };
+
+        if (hasPlayableActions(funscript)) {
+          return result;
+        }
+        emptyResult = emptyResult ?? result;
+      } catch (error) {
+        firstError =
+          firstError ??
+          `Failed to parse ${format.name} script: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      funscript: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return (
+    emptyResult ?? {
+      success: false,
+      funscript: null,
+      error: firstError ?? "Failed to parse script: unrecognized format",
+    }
+  );
+}
+
+/**
+ * Hints for locating and parsing a script source
+ */
+interface ScriptSourceHints extends ScriptFormatHints {
+  entry?: string; // Bundle entry to load from a zip archive
+}
+
+/**
+ * Bytes a load may decompress, shared by the scripts of a bundle
+ */
+interface InflateBudget {
+  maxBytes: number;
+  usedBytes: number;
+}
+
+/**
+ * Request options, load options and cache used when fetching a script
+ */
+interface ScriptFetchContext {
+  fetchOptions?: ScriptFetchOptions; // Request headers and credentials
+  options?: ScriptOptions; // Abort signal, timeout and progress callback
+  cache?: ScriptCache; // Cache of parsed scripts
+}
+
+/**
+ * Fetch a script from a URL and parse it with the registered formats.
+ * `data:` URLs are decoded locally. With a cache, cached scripts are
+ * revalidated with a conditional request and unchanged content is not parsed.
+ * @param url Script URL
+ * @param hints Explicit format, script type and bundle entry, if known
+ * @param context Request options, load options and cache
+ */
+async function fetchFunscript(
+  url: string,
+  hints: ScriptSourceHints = {},
+  context: ScriptFetchContext = {}
+): Promise<LoadScriptResult> {
+  const { fetchOptions, options } = context;
+  const budget = createInflateBudget(options);
+  // Cookies sent with the request are unknown here, so they can't be keyed
+  const cache =
+    fetchOptions?.credentials === "include" ? undefined : context.cache;
+
+  if (url.startsWith("data:")) {
+    const dataUrl = decodeDataUrl(url);
+
+    if (!dataUrl) {
+      return {
+        success: false,
+        funscript: null,
+        error: "Invalid data URL",
+      };
+    }
+
+    options?.onProgress?.({ stage: "parsing" });
+    return parseScriptBytes(
+      dataUrl.bytes,
+      { ...hints, contentType: dataUrl.contentType },
+      budget
+    );
+  }
+
+  const cacheKey = getScriptCacheKey(url, {
+    ...hints,
+    headers: fetchOptions?.headers,
+  });
+  const cached = cache ? await cache.get(cacheKey) : undefined;
+
+  if (cache && cached && cache.isFresh(cached)) {
+    await cache.touch(cacheKey);
+    return getCachedResult(cached);
+  }
+
+  // Conditional request for cached scripts
+  const headers = new Headers(fetchOptions?.headers);
+  if (cached?.etag) {
+    headers.set("If-None-Match", cached.etag);
+  }
+  if (cached?.lastModified) {
+    headers.set("If-Modified-Since", cached.lastModified);
+  }
+
+  // One controller for both the caller's signal and the timeout
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+
+  if (options?.signal?.aborted) {
+    controller.abort();
+  }
+  options?.signal?.addEventListener("abort", abort);
+
+  const timeout = options?.fetchTimeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.fetchTimeoutMs)
+    : undefined;
+
+  let response: Response;
+  let bytes: Uint8Array;
+
+  try {
+    options?.onProgress?.({ stage: "downloading", loaded: 0 });
+    response = await fetch(url, {
+      ...fetchOptions,
+      headers,
+      signal: controller.signal,
+    });
+
+    if (response.status === 304 && cache && cached) {
+      await cache.touch(cacheKey, getResponseValidators(response));
+      return getCachedResult(cached);
+    }
+
+    if (!response.ok) {
+      return {
+        success: false,
+        funscript: null,
+        error: `Failed to fetch script: ${response.status} ${response.statusText}`,
+      };
+    }
+
+    bytes = await readResponseBytes(response, options?.onProgress);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return {
+        success: false,
+        funscript: null,
+        error: timedOut
+          ? `Script download timed out after ${options?.fetchTimeoutMs}ms`
+          : SCRIPT_LOAD_ABORTED,
+      };
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+    options?.signal?.removeEventListener("abort", abort);
+  }
+
+  if (!cache) {
+    options?.onProgress?.({ stage: "parsing" });
+    return parseScriptBytes(
+      bytes,
+      { ...hints, url, contentType: response.headers.get("content-type") },
+      budget
+    );
+  }
+
+  // Same content as the cached script - no need to parse it again
+  const hash = await hashScriptContent(bytes);
+  if (cached && cached.hash === hash) {
+    await cache.touch(cacheKey, getResponseValidators(response));
+    return getCachedResult(cached);
+  }
+
+  options?.onProgress?.({ stage: "parsing" });
+  const result = await parseScriptBytes(
+    bytes,
+    { ...hints, url, contentType: response.headers.get("content-type") },
+    budget
+  );
+
+  if (result.success && result.funscript) {
+    await cache.set(cacheKey, {
+      hash,
+      funscript: result.funscript,
+      format: result.format,
+      bundle: result.bundle,
+      size: bytes.length,
+      ...getResponseValidators(response),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Build a load result from a cached script
+ */
+function getCachedResult(entry: ScriptCacheEntry): LoadScriptResult {
+  return {
+    success: true,
+    funscript: entry.funscript,
+    format: entry.format,
+    bundle: entry.bundle,
+  };
+}
+
+/**
+ * Read the ETag and Last-Modified headers of a response
+ */
+function getResponseValidators(response: Response): ScriptCacheValidators {
+  return {
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+  };
+}
+
+/**
+ * Read a response body, reporting download progress when requested
+ */
+async function readResponseBytes(
+  response: Response,
+  onProgress?: (progress: ScriptLoadProgress) => void
+): Promise<Uint8Array> {
+  // Getting a reader locks the body, so only stream it to report progress
+  if (!response.body || !onProgress) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const total = Number(response.headers.get("content-length")) || undefined;
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value);
+    loaded += value.length;
+    onProgress({ stage: "downloading", loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return bytes;
+}
+
+/**
+ * Parse script content provided directly: a funscript object is used as is,
+ * text, File/Blob and binary data go through format detection
+ * @param content Script content
+ * @param hints Explicit format, script type and bundle entry, if known
+ * @param options Load options with the decompression limit
+ */
+async function readScriptContent(
+  content: ScriptContent,
+  hints: ScriptSourceHints = {},
+  options?: ScriptOptions
+): Promise<LoadScriptResult> {
+  if (typeof content === "string") {
+    return parseScriptText(content, hints);
+  }
+
+  const budget = createInflateBudget(options);
+
+  if (typeof Blob !== "undefined" && content instanceof Blob) {
+    const fileName = (content as Partial<File>).name;
+
+    return parseScriptBytes(
+      await readBlobBytes(content),
+      { ...hints, contentType: content.type, url: fileName },
+      budget
+    );
+  }
+
+  if (content instanceof ArrayBuffer) {
+    return parseScriptBytes(new Uint8Array(content), hints, budget);
+  }
+
+  if (ArrayBuffer.isView(content)) {
+    return parseScriptBytes(
+      new Uint8Array(content.buffer, content.byteOffset, content.byteLength),
+      hints,
+      budget
+    );
+  }
+
+  if (!isValidFunscript(content)) {
+    return {
+      success: false,
+      funscript: null,
+      error: "Invalid funscript format: content is not a valid funscript",
+    };
+  }
+
+  return { success: true, funscript: content };
+}
+
+/**
+ * Parse binary script content: gzip/deflate payloads are decompressed,
+ * zip archives are opened as bundles, anything else is decoded as text
+ * @param bytes Script content
+ * @param hints Format hints and bundle entry
+ * @param budget Bytes the load may decompress, used up by this script
+ */
+async function parseScriptBytes(
+  bytes: Uint8Array,
+  hints: ScriptSourceHints,
+  budget: InflateBudget
+): Promise<LoadScriptResult> {
+  const packaging = detectScriptPackaging(bytes);
+
+  if (!packaging) {
+    return parseScriptText(new TextDecoder().decode(bytes), hints);
+  }
+
+  try {
+    if (packaging === "zip") {
+      return await loadScriptBundle(bytes, hints, budget);
+    }
+
+    const decompressed = await decompressBytes(
+      bytes,
+      packaging,
+      budget.maxBytes
+    );
+    useInflateBudget(budget, decompressed.length);
+
+    // Content-Type and extension describe the compressed payload
+    return await parseScriptBytes(
+      decompressed,
+      {
+        ...hints,
+        contentType: undefined,
+        url: hints.url && stripCompressionExtension(hints.url),
+      },
+      budget
+    );
+  } catch (error) {
+    return {
+      success: false,
+      funscript: null,
+      error: `Failed to read ${packaging} script: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+}
+
+/**
+ * Load the scripts of a zip bundle and pick the main one, either
+ * `hints.entry` or by naming convention. Axis scripts of the main script
+ * found in the bundle (`video.twist.funscript`) are merged into it.
+ * @param bytes Zip archive
+ * @param hints Format hints and bundle entry
+ * @param budget Bytes the load may decompress, for all entries together
+ */
+async function loadScriptBundle(
+  bytes: Uint8Array,
+  hints: ScriptSourceHints,
+  budget: InflateBudget
+): Promise<LoadScriptResult> {
+  const zipEntries = readZipEntries(bytes).filter((entry) => {
+    const extension = getUrlExtension(stripCompressionExtension(entry.name));
+    return (
+      !entry.name.endsWith("/") &&
+      !entry.name.startsWith("__MACOSX/") &&
+      extension !== null &&
+      getScriptFormatByExtension(extension) !== undefined
+    );
+  });
+
+  const entries: ScriptBundleEntry[] = [];
+
+  for (const zipEntry of zipEntries) {
+    const data = await zipEntry.read(budget.maxBytes);
+    useInflateBudget(budget, data.length);
+
+    const result = await parseScriptBytes(
+      data,
+      { format: hints.format, url: zipEntry.name },
+      budget
+    );
+
+    if (result.success && result.funscript) {
+      entries.push({
+        name: zipEntry.name,
+        axis: getAxisFromUrl(zipEntry.name),
+        format: result.format,
+        funscript: result.funscript,
+      });
+    }
+  }
+
+  const names = entries.map((entry) => entry.name);
+  const mainName = hints.entry
+    ? names.find(
+        (name) => name === hints.entry || name.endsWith(`/${hints.entry}`)
+      )
+    : pickMainScript(names, hints.url);
+  const main = entries.find((entry) => entry.name === mainName);
+
+  if (!main) {
+    return {
+      success: false,
+      funscript: null,
+      error: hints.entry
+        ? `Script not found in archive: ${hints.entry}`
+        : "No scripts found in archive",
+    };
+  }
+
+  let funscript: Funscript = { ...main.funscript };
+  for (const entry of entries) {
+    if (
+      entry.axis !== PRIMARY_AXIS &&
+      entry.name === getSiblingAxisUrl(main.name, entry.axis)
+    ) {
+      funscript = setAxisActions(
+        funscript,
+        entry.axis,
+        entry.funscript.actions
+      );
+    }
+  }
+
+  return {
+    success: true,
+    funscript,
+    format: main.format,
+    bundle: { main: main.name, entries },
+  };
+}
+
+/**
+ * Start the decompression budget of a load
+ */
+function createInflateBudget(options?: ScriptOptions): InflateBudget {
+  return {
+    maxBytes: options?.maxInflatedBytes ?? DEFAULT_MAX_INFLATED_BYTES,
+    usedBytes: 0,
+  };
+}
+
+/**
+ * Count decompressed bytes against the budget
+ * @throws Error if the load decompressed more than the budget allows
+ */
+function useInflateBudget(budget: InflateBudget, bytes: number): void {
+  budget.usedBytes += bytes;
+
+  if (budget.usedBytes > budget.maxBytes) {
+    throw new Error(`Decompressed script exceeds ${budget.maxBytes} bytes`);
+  }
+}
+
+/**
+ * Read a File/Blob as bytes, with a FileReader fallback for environments
+ * where Blob.arrayBuffer() is missing (older React Native)
+ */
+async function readBlobBytes(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === "function") {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Decode a `data:[<mediatype>][;base64],<data>` URL
+ * @returns The decoded bytes and media type, or null if the URL is malformed
+ */
+function decodeDataUrl(
+  url: string
+): { bytes: Uint8Array; contentType: string } | null {
+  const match = url.match(/^data:([^,]*),(.*)$/s);
+  if (!match) {
+    return null;
+  }
+
+  const [, meta, data] = match;
+  const isBase64 = /;base64$/i.test(meta);
+  const contentType = meta.replace(/;base64$/i, "");
+
+  try {
+    if (!isBase64) {
+      return {
+        bytes: new TextEncoder().encode(decodeURIComponent(data)),
+        contentType,
+      };
+    }
+
+    const binary = atob(data);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return { bytes, contentType };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the additional axes of a multi-axis script, either given explicitly
+ * in `scriptData.axes` or discovered as sibling files of `scriptData.url`
+ */
+async function loadAdditionalAxes(
+  funscript: Funscript,
+  scriptData: ScriptData,
+  options?: ScriptOptions,
+  cache?: ScriptCache
+): Promise<LoadScriptResult> {
+  let result = funscript;
+
+  // Explicit axis scripts - failures are reported
+  for (const [key, source] of Object.entries(scriptData.axes ?? {})) {
+    const axisId = resolveAxisId(key) ?? key;
+    const axisResult =
+      typeof source === "string"
+        ? await fetchFunscript(source, {}, {
+            fetchOptions: scriptData.fetchOptions,
+            options: {
+              signal: options?.signal,
+              fetchTimeoutMs: options?.fetchTimeoutMs,
+              maxInflatedBytes: options?.maxInflatedBytes,
+            },
+            cache,
+          })
+        : await readScriptContent(source, {}, options);
+
+    if (!axisResult.success || !axisResult.funscript) {
+      return {
+        success: false,
+        funscript: null,
+        error: `Failed to load axis ${axisId}: ${axisResult.error}`,
+      };
+    }
+
+    result = setAxisActions(result, axisId, axisResult.funscript.actions);
+  }
+
+  // Sibling axis files - missing files are expected and skipped
+  if (
+    options?.loadSiblingAxes &&
+    scriptData.url &&
+    !scriptData.url.startsWith("data:")
+  ) {
+    const axisIds = (
+      Array.isArray(options.loadSiblingAxes)
+        ? options.loadSiblingAxes.map((axis) => resolveAxisId(axis) ?? axis)
+        : Object.keys(FUNSCRIPT_AXIS_NAMES)
+    ).filter(
+      (axisId) =>
+        axisId !== PRIMARY_AXIS && !getAxisActions(result, axisId)?.length
+    );
+
+    const siblings = await Promise.all(
+      axisIds.map((axisId) =>
+        fetchFunscript(
+          getSiblingAxisUrl(scriptData.url!, axisId),
+          {},
+          {
+            fetchOptions: scriptData.fetchOptions,
+            options: {
+              signal: options?.signal,
+              fetchTimeoutMs: options?.fetchTimeoutMs,
+              maxInflatedBytes: options?.maxInflatedBytes,
+            },
+            cache,
+          }
+        ).catch(() => null)
+      )
+    );
+
+    siblings.forEach((sibling, index) => {
+      if (sibling?.success && sibling.funscript) {
+        result = setAxisActions(
+          result,
+          axisIds[index],
+          sibling.funscript.actions
+        );
+      }
+    });
+  }
+
+  return { success: true, funscript: result };
 }
 
 /**
  * Load and parse a script from ScriptData
  *
- * @param scriptData - The script data (URL or content)
- * @param options - Script options (e.g., inversion)
+ * @param scriptData - The script data (URL or content, plus optional axes)
+ * @param options - Script options (e.g., inversion, transforms, sibling axes)
+ * @param cache - Cache of parsed scripts, used for URLs
  * @returns Parsed funscript or error
  */
 export async function loadScript(
   scriptData: ScriptData,
-  options?: ScriptOptions
+  options?: ScriptOptions,
+  cache?: ScriptCache
 ): Promise<LoadScriptResult> {
   try {
     let funscript: Funscript;
+    let source: LoadScriptResult;
+
+    const hints: ScriptSourceHints = {
+      format: scriptData.format,
+      type: scriptData.type,
+      entry: scriptData.entry,
+    };
+
+    if (options?.signal?.aborted) {
+      return { success: false, funscript: null, error: SCRIPT_LOAD_ABORTED };
+    }
 
     if (scriptData.content) {
       // Content already provided
-      if (!isValidFunscript(scriptData.content)) {
-        return {
-          success: false,
-          funscript: null,
-          error: "Invalid funscript format: content is not a valid funscript",
-        };
-      }
-      funscript = scriptData.content;
+      options?.onProgress?.({ stage: "parsing" });
+      source = await readScriptContent(scriptData.content, hints, options);
     } else if (scriptData.url) {
       // Fetch from URL
-      const response = await fetch(scriptData.url);
-
-      if (!response.ok) {
-        return {
-          success: false,
-          funscript: null,
-          error: `Failed to fetch script: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const fileExtension = scriptData.url.toLowerCase().split(".").pop();
-
-      if (fileExtension === "csv") {
-        const csvText = await response.text();
-        funscript = parseCSVToFunscript(csvText);
-      } else {
-        // Assume JSON/funscript
-        const text = await response.text();
-
-        try {
-          const parsed = JSON.parse(text);
-
-          if (!isValidFunscript(parsed)) {
-            return {
-              success: false,
-              funscript: null,
-              error:
-                "Invalid funscript format: missing or invalid actions array",
-            };
-          }
-
-          funscript = parsed;
-        } catch {
-          // Try parsing as CSV if JSON fails
-          funscript = parseCSVToFunscript(text);
-
-          if (funscript.actions.length === 0) {
-            return {
-              success: false,
-              funscript: null,
-              error: "Failed to parse script: not valid JSON or CSV",
-            };
-          }
-        }
-      }
+      source = await fetchFunscript(scriptData.url, hints, {
+        fetchOptions: scriptData.fetchOptions,
+        options,
+        cache,
+      });
     } else {
       return {
         success: false,
@@ -177,12 +991,57 @@ export async function loadScript(
       };
     }
 
+    if (!source.success || !source.funscript) {
+      return source;
+    }
+
+    // Resolve single-file axes and load additional axis scripts.
+    // Bundles already carry their axis scripts, no sibling URLs to look up.
+    funscript = normalizeFunscriptAxes(source.funscript);
+
+    const axesResult = await loadAdditionalAxes(
+      funscript,
+      source.bundle ? { ...scriptData, url: undefined } : scriptData,
+      options,
+      cache
+    );
+    if (!axesResult.success || !axesResult.funscript) {
+      return axesResult;
+    }
+    funscript = normalizeFunscriptMetadata(axesResult.funscript);
+
+    if (options?.signal?.aborted) {
+      return { success: false, funscript: null, error: SCRIPT_LOAD_ABORTED };
+    }
+
+    // Validate and optionally repair
+    let diagnostics: ScriptDiagnostic[] | undefined;
+    if (options?.validate) {
+      const report = validateFunscript(
+        funscript,
+        options.validate === true ? {} : options.validate
+      );
+      diagnostics = report.diagnostics;
+
+      if (report.repaired) {
+        funscript = report.repaired;
+      } else if (!report.valid) {
+        return {
+          success: false,
+          funscript: null,
+          error: `Invalid funscript: ${formatValidationErrors(report)}`,
+          diagnostics,
+        };
+      }
+    }
+
     // Validate we have actions
-    if (!funscript.actions || funscript.actions.length === 0) {
+    if (!funscript.actions || !hasPlayableActions(funscript)) {
       return {
         success: false,
         funscript: null,
         error: "Invalid funscript: no actions found",
+        diagnostics,
       };
     }
 
@@ -193,10 +1052,41 @@ export async function loadScript(
 
     // Sort actions by timestamp
     funscript.actions.sort((a, b) => a.at - b.at);
+    funscript.rotation?.sort((a, b) => a.at - b.at);
+
+    // Apply the transform pipeline
+    if (options?.transforms?.length) {
+      funscript = applyScriptTransforms(funscript, options.transforms);
+
+      if (!hasPlayableActions(funscript)) {
+        return {
+          success: false,
+          funscript: null,
+          error: "Invalid funscript: no actions left after transforms",
+          diagnostics,
+        };
+      }
+    }
+
+    // Reduce the number of actions
+    let simplification: FunscriptSimplifyReport | undefined;
+    if (options?.simplify) {
+      const simplified = simplifyFunscript(funscript, options.simplify);
+      funscript = simplified.funscript;
+      simplification = simplified.report;
+    }
 
     return {
       success: true,
       funscript,
+      format: source.format,
+      bundle: source.bundle,
+      axes: getFunscriptAxisIds(funscript),
+      chapters: getFunscriptChapters(funscript),
+      bookmarks: getFunscriptBookmarks(funscript),
+      simplification,
+      stats: options?.analyze ? analyzeFunscript(funscript) : undefined,
+      diagnostics,
     };
   } catch (error) {
     return {
@@ -0,0 +1,150 @@
+import { Funscript, FunscriptAction } from "./device-interface";
+import {
+  crossfadeLoopSeam,
+  getLoopTime,
+  getScriptEndTime,
+  isWholeScriptLoop,
+  renderLoopFunscript,
+  resolveScriptLoop,
+  trimLoopFunscript,
+} from "./script-loop";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+const script: Funscript = {
+  actions: actions([0, 0], [100, 100], [200, 0], [300, 100]),
+};
+
+describe("resolveScriptLoop", () => {
+  it("loops the whole script for true", () => {
+    const loop = resolveScriptLoop(script, true)!;
+
+    expect(loop).toEqual({ startMs: 0, endMs: 300, crossfadeMs: 0 });
+    expect(isWholeScriptLoop(script, loop)).toBe(true);
+  });
+
+  it("returns null when not looping or the range is empty", () => {
+    expect(resolveScriptLoop(script, false)).toBeNull();
+    expect(resolveScriptLoop(script, { startMs: 200, endMs: 100 })).toBeNull();
+  });
+
+  it("limits the crossfade to the loop length", () => {
+    expect(
+      resolveScriptLoop(script, { startMs: 100, endMs: 200, crossfadeMs: 500 })
+    ).toEqual({ startMs: 100, endMs: 200, crossfadeMs: 100 });
+  });
+});
+
+describe("getLoopTime", () => {
+  const loop = { startMs: 100, endMs: 300, crossfadeMs: 0 };
+
+  it("plays times before the loop end as they are", () => {
+    expect(getLoopTime(50, loop)).toBe(50);
+    expect(getLoopTime(299, loop)).toBe(299);
+  });
+
+  it("wraps from the loop end to its start", () => {
+    expect(getLoopTime(300, loop)).toBe(100);
+    expect(getLoopTime(450, loop)).toBe(250);
+    expect(getLoopTime(500, loop)).toBe(100);
+  });
+});
+
+describe("getScriptEndTime", () => {
+  it("uses the last action of any track", () => {
+    expect(
+      getScriptEndTime({
+        actions: actions([0, 0], [100, 50]),
+        axes: [{ id: "R0", actions: actions([0, 0], [400, 50]) }],
+        rotation: [{ at: 250, speed: 0.5, clockwise: true }],
+      })
+    ).toBe(400);
+  });
+});
+
+describe("renderLoopFunscript", () => {
+  const loop = { startMs: 100, endMs: 300, crossfadeMs: 0 };
+
+  it("repeats the loop body until the duration", () => {
+    const { funscript, endMs } = renderLoopFunscript(script, loop, {
+      durationMs: 700,
+    });
+
+    expect(endMs).toBe(700);
+    expect(funscript.actions).toEqual(
+      actions(
+        [0, 0],
+        [100, 100],
+        [200, 0],
+        [300, 100],
+        [400, 0],
+        [500, 100],
+        [600, 0]
+      )
+    );
+  });
+
+  it("limits the repeats to maxActions", () => {
+    const { funscript, endMs } = renderLoopFunscript(script, loop, {
+      durationMs: 10000,
+      maxActions: 4,
+    });
+
+    expect(endMs).toBe(500);
+    expect(funscript.actions).toHaveLength(5);
+  });
+
+  it("starts each pass with the position at the loop start", () => {
+    const { funscript, endMs } = renderLoopFunscript(
+      script,
+      { startMs: 50, endMs: 150, crossfadeMs: 0 },
+      { durationMs: 350 }
+    );
+
+    expect(endMs).toBe(350);
+    expect(funscript.actions).toEqual(
+      actions([0, 0], [100, 100], [150, 50], [200, 100], [250, 50], [300, 100])
+    );
+  });
+});
+
+describe("crossfadeLoopSeam", () => {
+  it("blends the end of the loop into the lead-in of its start", () => {
+    const source: Funscript = {
+      actions: actions([0, 0], [50, 40], [100, 100], [200, 100], [300, 100]),
+    };
+
+    const result = crossfadeLoopSeam(source, {
+      startMs: 100,
+      endMs: 300,
+      crossfadeMs: 100,
+    });
+
+    // Weight 0 at the fade start, 0.5 halfway and 1 at the loop end
+    expect(result.actions).toEqual(
+      actions([0, 0], [50, 40], [100, 100], [200, 100], [250, 70], [300, 100])
+    );
+  });
+
+  it("leaves the script unchanged without a crossfade", () => {
+    const loop = { startMs: 0, endMs: 300, crossfadeMs: 0 };
+
+    expect(crossfadeLoopSeam(script, loop)).toBe(script);
+  });
+});
+
+describe("trimLoopFunscript", () => {
+  it("moves the loop body to 0 and closes it at the loop end", () => {
+    const result = trimLoopFunscript(script, {
+      startMs: 50,
+      endMs: 250,
+      crossfadeMs: 0,
+    });
+
+    expect(result.actions).toEqual(
+      actions([0, 50], [50, 100], [150, 0], [200, 50])
+    );
+  });
+});
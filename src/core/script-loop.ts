@@ -0,0 +1,340 @@
+/**
+ * Script Loop
+ *
+ * The looping model shared by all devices: loop the whole script or an A-B
+ * range, optionally crossfading the seam so the end of each pass blends into
+ * the start of the next. Playback runs into the loop normally (times before
+ * the loop end play as they are) and wraps from the loop end to its start.
+ *
+ * Devices that can't loop natively either map their playback clock with
+ * getLoopTime (Buttplug), loop a script trimmed to the loop body (Handy,
+ * within the range) or play a rendered script holding the loop body
+ * repeated several times (Handy running into the range, Autoblow).
+ */
+
+import { Funscript, FunscriptAction, RotationAction } from "./device-interface";
+import { mapFunscriptAxes } from "./funscript-axes";
+import { FunscriptTimeline, findActionIndex } from "./script-timeline";
+
+/**
+ * Loop options for HapticDevice.play
+ */
+export interface ScriptLoopOptions {
+  startMs?: number; // Loop start (default 0)
+  endMs?: number; // Loop end (default: the last action of the script)
+  crossfadeMs?: number; // Blend the last part of each pass into the loop start (default 0)
+}
+
+/**
+ * A loop with its range resolved against a script
+ */
+export interface ScriptLoop {
+  startMs: number;
+  endMs: number;
+  crossfadeMs: number;
+}
+
+/**
+ * Options for rendering a looped script
+ */
+export interface RenderLoopOptions {
+  durationMs?: number; // Render repeats until at least this time (default: 10 minutes past the loop end)
+  maxActions?: number; // Stop adding repeats above this many actions per track (default 20000)
+}
+
+// How long a rendered loop plays past the loop end by default
+const DEFAULT_RENDER_MS = 10 * 60 * 1000;
+
+/**
+ * Resolve the loop argument of HapticDevice.play against a script
+ * @param funscript The script being played
+ * @param loop true for the whole script, or loop options
+ * @returns The loop, or null when not looping or the range is empty
+ */
+export function resolveScriptLoop(
+  funscript: Funscript,
+  loop: boolean | ScriptLoopOptions | undefined
+): ScriptLoop | null {
+  if (!loop) {
+    return null;
+  }
+
+  const options = loop === true ? {} : loop;
+  const startMs = Math.max(0, options.startMs ?? 0);
+  const endMs = options.endMs ?? getScriptEndTime(funscript);
+
+  if (!(endMs > startMs)) {
+    return null;
+  }
+
+  return {
+    startMs,
+    endMs,
+    crossfadeMs: Math.min(
+      endMs - startMs,
+      Math.max(0, options.crossfadeMs ?? 0)
+    ),
+  };
+}
+
+/**
+ * Whether a loop repeats the whole script as it is, which devices with
+ * native looping can play without help
+ */
+export function isWholeScriptLoop(
+  funscript: Funscript,
+  loop: ScriptLoop
+): boolean {
+  return (
+    loop.startMs === 0 &&
+    loop.endMs === getScriptEndTime(funscript) &&
+    loop.crossfadeMs === 0
+  );
+}
+
+/**
+ * Whether two loops cover the same range with the same crossfade
+ */
+export function isSameScriptLoop(
+  a: ScriptLoop | null,
+  b: ScriptLoop | null
+): boolean {
+  return (
+    a === b ||
+    (!!a &&
+      !!b &&
+      a.startMs === b.startMs &&
+      a.endMs === b.endMs &&
+      a.crossfadeMs === b.crossfadeMs)
+  );
+}
+
+/**
+ * Map a playback time to the script time played while looping
+ * @param timeMs Playback time in milliseconds
+ * @param loop The loop
+ */
+export function getLoopTime(timeMs: number, loop: ScriptLoop): number {
+  if (timeMs < loop.endMs) {
+    return timeMs;
+  }
+
+  const duration = loop.endMs - loop.startMs;
+  return loop.startMs + ((timeMs - loop.startMs) % duration);
+}
+
+/**
+ * Get the time of the last action over all tracks
+ */
+export function getScriptEndTime(funscript: Funscript): number {
+  const lastAt = (track: { at: number }[] = []) =>
+    track.length > 0 ? track[track.length - 1].at : 0;
+
+  return Math.max(
+    lastAt(funscript.actions),
+    lastAt(funscript.rotation),
+    ...(funscript.axes ?? []).map((axis) => lastAt(axis.actions))
+  );
+}
+
+/**
+ * Crossfade the seam of a loop: over the last `crossfadeMs` before the loop
+ * end, positions blend into the ones leading up to the loop start, so the
+ * loop end meets the start without a jump. Positions after the loop end and
+ * the rotation track are not changed.
+ */
+export function crossfadeLoopSeam(
+  funscript: Funscript,
+  loop: ScriptLoop
+): Funscript {
+  if (loop.crossfadeMs <= 0) {
+    return funscript;
+  }
+
+  return mapFunscriptAxes(funscript, (actions) =>
+    crossfadeTrack(actions, loop)
+  );
+}
+
+/**
+ * Render a looped script for devices that can't loop natively: the script
+ * up to the loop end, followed by the (crossfaded) loop body repeated until
+ * `options.durationMs`. Playing it from a time before the loop end matches
+ * looping playback up to the returned end time; devices restart at the loop
+ * start when it is reached.
+ * @returns The rendered script and the time its repeats run out
+ */
+export function renderLoopFunscript(
+  funscript: Funscript,
+  loop: ScriptLoop,
+  options: RenderLoopOptions = {}
+): { funscript: Funscript; endMs: number } {
+  const source = crossfadeLoopSeam(funscript, loop);
+  const duration = loop.endMs - loop.startMs;
+  const durationMs = options.durationMs ?? loop.endMs + DEFAULT_RENDER_MS;
+  const maxActions = options.maxActions ?? 20000;
+
+  // Repeats needed for the duration, limited by the densest track
+  const tracks: { at: number }[][] = [
+    source.actions,
+    source.rotation ?? [],
+    ...(source.axes ?? []).map((axis) => axis.actions),
+  ];
+  const bodySize = Math.max(
+    1,
+    ...tracks.map((track) => getLoopBody(track, loop, () => null).length + 1)
+  );
+  const repeats = Math.max(
+    1,
+    Math.min(
+      Math.ceil((durationMs - loop.endMs) / duration),
+      Math.floor(maxActions / bodySize)
+    )
+  );
+
+  const renderTrack = <T extends { at: number }>(
+    track: T[],
+    startAction: (at: number) => T | null
+  ): T[] => {
+    const body = getLoopBody(track, loop, startAction);
+    const result = track.filter((action) => action.at < loop.endMs);
+
+    for (let i = 0; i < repeats; i++) {
+      const shift = loop.endMs + i * duration - loop.startMs;
+      for (const action of body) {
+        result.push({ ...action, at: action.at + shift });
+      }
+    }
+
+    return result;
+  };
+
+  const result = mapFunscriptAxes(source, (actions) => {
+    const timeline = new FunscriptTimeline(actions);
+    return renderTrack(actions, (at) =>
+      actions.length > 0
+        ? { at, pos: Math.round(timeline.positionAt(at)!) }
+        : null
+    );
+  });
+
+  if (source.rotation) {
+    const rotation = source.rotation;
+    result.rotation = renderTrack<RotationAction>(rotation, (at) => {
+      const index = findActionIndex(rotation, at);
+      return index >= 0 ? { ...rotation[index], at } : null;
+    });
+  }
+
+  return { funscript: result, endMs: loop.endMs + repeats * duration };
+}
+
+/**
+ * Trim a script to its (crossfaded) loop body, moved to start at 0 and
+ * closed with the position at the loop end, for devices that loop a whole
+ * script natively. Script time t in the loop plays at t - loop.startMs.
+ */
+export function trimLoopFunscript(
+  funscript: Funscript,
+  loop: ScriptLoop
+): Funscript {
+  const source = crossfadeLoopSeam(funscript, loop);
+
+  const result = mapFunscriptAxes(source, (actions) => {
+    if (actions.length === 0) {
+      return actions;
+    }
+
+    const timeline = new FunscriptTimeline(actions);
+    const body = getLoopBody(actions, loop, (at) => ({
+      at,
+      pos: Math.round(timeline.positionAt(at)!),
+    }));
+    body.push({
+      at: loop.endMs,
+      pos: Math.round(timeline.positionAt(loop.endMs)!),
+    });
+
+    return body.map((action) => ({
+      ...action,
+      at: action.at - loop.startMs,
+    }));
+  });
+
+  if (source.rotation) {
+    const rotation = source.rotation;
+    result.rotation = getLoopBody(rotation, loop, (at) => {
+      const index = findActionIndex(rotation, at);
+      return index >= 0 ? { ...rotation[index], at } : null;
+    }).map((action) => ({ ...action, at: action.at - loop.startMs }));
+  }
+
+  return result;
+}
+
+/**
+ * Get the actions of one loop pass: those within [start, end), starting
+ * with the state at the loop start when no action falls on it
+ */
+function getLoopBody<T extends { at: number }>(
+  track: T[],
+  loop: ScriptLoop,
+  startAction: (at: number) => T | null
+): T[] {
+  const body = track.filter(
+    (action) => action.at >= loop.startMs && action.at < loop.endMs
+  );
+
+  if (body.length === 0 || body[0].at > loop.startMs) {
+    const first = startAction(loop.startMs);
+    if (first) {
+      body.unshift(first);
+    }
+  }
+
+  return body;
+}
+
+/**
+ * Crossfade the seam of one track
+ */
+function crossfadeTrack(
+  actions: FunscriptAction[],
+  loop: ScriptLoop
+): FunscriptAction[] {
+  if (actions.length === 0) {
+    return actions;
+  }
+
+  const timeline = new FunscriptTimeline(actions);
+  const duration = loop.endMs - loop.startMs;
+  const fadeStart = loop.endMs - loop.crossfadeMs;
+
+  // Sample at every action in the fade window and its counterpart before
+  // the loop start
+  const times = new Set<number>([fadeStart, loop.endMs]);
+  for (const action of actions) {
+    if (action.at > fadeStart && action.at < loop.endMs) {
+      times.add(action.at);
+    }
+    if (action.at > fadeStart - duration && action.at < loop.startMs) {
+      times.add(action.at + duration);
+    }
+  }
+
+  const blended = Array.from(times)
+    .sort((a, b) => a - b)
+    .map((at) => {
+      const weight = (at - fadeStart) / loop.crossfadeMs;
+      const pos =
+        (1 - weight) * timeline.positionAt(at)! +
+        weight * timeline.positionAt(at - duration)!;
+      return { at, pos: Math.round(pos) };
+    });
+
+  return [
+    ...actions.filter((action) => action.at < fadeStart),
+    ...blended,
+    ...actions.filter((action) => action.at > loop.endMs),
+  ];
+}
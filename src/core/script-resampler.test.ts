@@ -0,0 +1,92 @@
+import { FunscriptAction } from "./device-interface";
+import { resampleActions, resampleFunscript } from "./script-resampler";
+import { applyScriptTransforms } from "./script-transforms";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+describe("resampleActions", () => {
+  it("samples at a fixed interval", () => {
+    expect(
+      resampleActions(actions([0, 0], [100, 100]), {
+        intervalMs: 25,
+        interpolation: "linear",
+      })
+    ).toEqual(actions([0, 0], [25, 25], [50, 50], [75, 75], [100, 100]));
+  });
+
+  it("pins peaks and valleys at their original time", () => {
+    expect(
+      resampleActions(actions([0, 0], [130, 100], [200, 0]), {
+        intervalMs: 50,
+        interpolation: "linear",
+      })
+    ).toEqual(actions([0, 0], [50, 38], [100, 77], [130, 100], [200, 0]));
+  });
+
+  it("returns short or invalid input unchanged", () => {
+    const single = actions([0, 50]);
+    const pair = actions([0, 0], [100, 100]);
+
+    expect(resampleActions(single)).toBe(single);
+    expect(resampleActions(pair, { intervalMs: 0 })).toBe(pair);
+  });
+
+  it("smooths samples without moving the pinned ones", () => {
+    const input = actions(
+      [0, 0],
+      [100, 60],
+      [110, 40],
+      [120, 60],
+      [130, 40],
+      [400, 100]
+    );
+    const options = { intervalMs: 10, interpolation: "linear" as const };
+
+    const raw = resampleActions(input, { ...options, peakThreshold: 30 });
+    const smoothed = resampleActions(input, {
+      ...options,
+      peakThreshold: 30,
+      smoothingMs: 60,
+    });
+
+    const roughness = (result: FunscriptAction[]) =>
+      result
+        .slice(1)
+        .reduce(
+          (sum, action, i) => sum + Math.abs(action.pos - result[i].pos),
+          0
+        );
+
+    expect(smoothed.map((action) => action.at)).toEqual(
+      raw.map((action) => action.at)
+    );
+    expect(smoothed[0]).toEqual(input[0]);
+    expect(smoothed[smoothed.length - 1]).toEqual(input[input.length - 1]);
+    expect(roughness(smoothed)).toBeLessThan(roughness(raw));
+  });
+});
+
+describe("resampleFunscript", () => {
+  it("limits resampling to one axis", () => {
+    const line = actions([0, 0], [100, 100]);
+    const result = resampleFunscript(
+      { actions: line, axes: [{ id: "R0", actions: line }] },
+      { axis: "R0", intervalMs: 50 }
+    );
+
+    expect(result.actions).toEqual(line);
+    expect(result.axes![0].actions).toHaveLength(3);
+  });
+});
+
+describe("resample transform", () => {
+  it("rejects unknown interpolations", () => {
+    expect(() =>
+      applyScriptTransforms({ actions: actions([0, 0], [100, 100]) }, [
+        { name: "resample", params: { interpolation: "bogus" } },
+      ])
+    ).toThrow(/interpolation/);
+  });
+});
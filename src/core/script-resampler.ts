@@ -0,0 +1,193 @@
+/**
+ * Script Resampler
+ *
+ * Resamples tracks to a fixed interval with a chosen interpolation and
+ * optional low-pass smoothing, for devices that play scripts point by point.
+ * Peaks and valleys of the original are kept at their exact time and
+ * position, so strokes stay on the beat.
+ */
+
+import { Funscript, FunscriptAction } from "./device-interface";
+import {
+  getAxisActions,
+  mapFunscriptAxes,
+  resolveAxisId,
+  setAxisActions,
+} from "./funscript-axes";
+import { findExtremes } from "./script-simplifier";
+import { FunscriptTimeline, TimelineInterpolation } from "./script-timeline";
+import { getNumberParam, registerScriptTransform } from "./script-transforms";
+
+/**
+ * Resampling options
+ */
+export interface ResampleOptions {
+  intervalMs?: number; // Time between samples (default 50, i.e. 20Hz)
+  interpolation?: TimelineInterpolation; // How samples are computed (default "monotone")
+  smoothingMs?: number; // Width of the low-pass window, 0 for none (default 0)
+  peakThreshold?: number; // Reversals up to this size are jitter, not peaks (default 5)
+}
+
+/**
+ * A resampled action, pinned if it is an original peak or valley
+ */
+interface Sample extends FunscriptAction {
+  pinned: boolean;
+}
+
+const INTERPOLATIONS: TimelineInterpolation[] = [
+  "step",
+  "linear",
+  "cubic",
+  "monotone",
+  "ease",
+];
+
+/**
+ * Resample a sorted action sequence
+ * @param actions Actions sorted by timestamp
+ * @param options Resampling options
+ * @returns Actions every `intervalMs` plus the original peaks and valleys,
+ *   positions rounded to whole units
+ */
+export function resampleActions(
+  actions: FunscriptAction[],
+  options: ResampleOptions = {}
+): FunscriptAction[] {
+  const intervalMs = options.intervalMs ?? 50;
+  if (actions.length < 2 || !(intervalMs > 0)) {
+    return actions;
+  }
+
+  const timeline = new FunscriptTimeline(actions, {
+    interpolation: options.interpolation ?? "monotone",
+  });
+  const extremes = findExtremes(timeline.actions, options.peakThreshold ?? 5);
+  const peaks = timeline.actions.filter(
+    (_, i) => i === 0 || i === timeline.length - 1 || extremes[i]
+  );
+
+  // Grid samples, except those too close to a peak
+  const samples: Sample[] = [];
+  let peakIndex = 0;
+
+  for (let at = timeline.startMs; at <= timeline.endMs; at += intervalMs) {
+    while (peakIndex < peaks.length && peaks[peakIndex].at < at) {
+      samples.push({ ...peaks[peakIndex++], pinned: true });
+    }
+
+    const before = samples.length > 0 ? samples[samples.length - 1] : null;
+    const after = peakIndex < peaks.length ? peaks[peakIndex] : null;
+    const nearPeak =
+      (before?.pinned && at - before.at < intervalMs / 2) ||
+      (after && after.at - at < intervalMs / 2);
+
+    if (!nearPeak) {
+      samples.push({ at, pos: timeline.positionAt(at)!, pinned: false });
+    }
+  }
+  while (peakIndex < peaks.length) {
+    samples.push({ ...peaks[peakIndex++], pinned: true });
+  }
+
+  const positions =
+    options.smoothingMs && options.smoothingMs > 0
+      ? smoothPositions(samples, options.smoothingMs / 2)
+      : samples.map((sample) => sample.pos);
+
+  return samples.map((sample, i) => ({
+    at: sample.at,
+    pos: Math.min(100, Math.max(0, Math.round(positions[i]))),
+  }));
+}
+
+/**
+ * Resample the axes of a funscript. The rotation track is not changed.
+ * @param funscript The funscript to resample
+ * @param options Resampling options, `axis` limits it to one axis
+ */
+export function resampleFunscript(
+  funscript: Funscript,
+  options: ResampleOptions & { axis?: string } = {}
+): Funscript {
+  if (options.axis) {
+    const actions = getAxisActions(funscript, options.axis);
+
+    return actions
+      ? setAxisActions(
+          funscript,
+          options.axis,
+          resampleActions(actions, options)
+        )
+      : funscript;
+  }
+
+  return mapFunscriptAxes(funscript, (actions) =>
+    resampleActions(actions, options)
+  );
+}
+
+/**
+ * Low-pass filter with a triangular window. Pinned samples keep their
+ * position and don't move.
+ * @param samples Samples sorted by time
+ * @param halfWidthMs Half of the window width
+ */
+function smoothPositions(samples: Sample[], halfWidthMs: number): number[] {
+  let start = 0;
+  let end = 0;
+
+  return samples.map((sample) => {
+    if (sample.pinned) {
+      return sample.pos;
+    }
+
+    while (samples[start].at < sample.at - halfWidthMs) {
+      start++;
+    }
+    while (
+      end < samples.length &&
+      samples[end].at <= sample.at + halfWidthMs
+    ) {
+      end++;
+    }
+
+    let total = 0;
+    let weights = 0;
+    for (let j = start; j < end; j++) {
+      const distance = Math.abs(samples[j].at - sample.at);
+      const weight = 1 - distance / (halfWidthMs + 1);
+      total += samples[j].pos * weight;
+      weights += weight;
+    }
+
+    return weights > 0 ? total / weights : sample.pos;
+  });
+}
+
+/**
+ * resample: { intervalMs?, interpolation?, smoothingMs?, peakThreshold?, axis? }
+ * - resample to a fixed interval, smoothing out jitter
+ */
+registerScriptTransform("resample", (funscript, params) => {
+  const interpolation = params.interpolation;
+  if (
+    interpolation !== undefined &&
+    !INTERPOLATIONS.includes(interpolation as TimelineInterpolation)
+  ) {
+    const expected = INTERPOLATIONS.join(", ");
+    throw new Error(
+      `Invalid transform parameter "interpolation": expected one of ${expected}`
+    );
+  }
+
+  const axis = typeof params.axis === "string" ? params.axis : undefined;
+
+  return resampleFunscript(funscript, {
+    intervalMs: getNumberParam(params, "intervalMs"),
+    interpolation: interpolation as TimelineInterpolation | undefined,
+    smoothingMs: getNumberParam(params, "smoothingMs"),
+    peakThreshold: getNumberParam(params, "peakThreshold"),
+    axis: axis ? resolveAxisId(axis) ?? axis : undefined,
+  });
+});
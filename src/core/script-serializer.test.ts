@@ -0,0 +1,98 @@
+import { Funscript, FunscriptAction } from "./device-interface";
+import { loadScript } from "./script-loader";
+import {
+  serializeFunscript,
+  serializeFunscriptAxes,
+  serializeFunscriptToCSV,
+} from "./script-serializer";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+const script: Funscript = {
+  actions: actions([100, 100], [0, 0.4], [200, 49.6]),
+  axes: [{ id: "R0", actions: actions([0, 50], [100, 60]) }],
+  metadata: { title: "Test" },
+};
+
+describe("serializeFunscript", () => {
+  it("writes sorted, rounded actions with the standard header", () => {
+    expect(JSON.parse(serializeFunscript(script))).toEqual({
+      version: "1.0",
+      inverted: false,
+      range: 100,
+      metadata: { title: "Test" },
+      actions: actions([0, 0], [100, 100], [200, 50]),
+      axes: [{ id: "R0", actions: actions([0, 50], [100, 60]) }],
+    });
+  });
+
+  it("keeps position decimals up to the precision", () => {
+    const output = JSON.parse(serializeFunscript(script, { precision: 1 }));
+
+    expect(output.actions).toEqual(actions([0, 0.4], [100, 100], [200, 49.6]));
+  });
+
+  it("leaves out metadata and axes on request", () => {
+    const output = JSON.parse(
+      serializeFunscript(script, { includeMetadata: false, includeAxes: false })
+    );
+
+    expect(output.metadata).toBeUndefined();
+    expect(output.axes).toBeUndefined();
+  });
+
+  it("loads back to the same script", async () => {
+    const result = await loadScript({
+      type: "funscript",
+      content: serializeFunscript(script),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.funscript!.actions).toEqual(
+      actions([0, 0], [100, 100], [200, 50])
+    );
+    expect(result.funscript!.axes).toEqual([
+      { id: "R0", actions: actions([0, 50], [100, 60]) },
+    ]);
+  });
+});
+
+describe("serializeFunscriptAxes", () => {
+  it("writes one single-axis script per axis", () => {
+    const files = serializeFunscriptAxes(script);
+
+    expect(Object.keys(files)).toEqual(["L0", "R0"]);
+    expect(JSON.parse(files.R0)).toMatchObject({
+      actions: actions([0, 50], [100, 60]),
+    });
+    expect(JSON.parse(files.R0).axes).toBeUndefined();
+  });
+});
+
+describe("serializeFunscriptToCSV", () => {
+  it("writes at,pos lines for an axis", () => {
+    expect(serializeFunscriptToCSV(script, { header: true })).toBe(
+      "at,pos\n0,0\n100,100\n200,50"
+    );
+    expect(serializeFunscriptToCSV(script, { axis: "twist" })).toBe(
+      "0,50\n100,60"
+    );
+  });
+
+  it("loads back to the same actions", async () => {
+    const result = await loadScript({
+      type: "csv",
+      content: serializeFunscriptToCSV(script, {
+        header: true,
+        lineEnding: "\r\n",
+      }),
+    });
+
+    expect(result.format).toBe("csv");
+    expect(result.funscript!.actions).toEqual(
+      actions([0, 0], [100, 100], [200, 50])
+    );
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Script Serializer
+ *
+ * Turns a Funscript back into `.funscript` JSON or CSV, so scripts that went
+ * through the library's transforms can be saved or re-uploaded.
+ */
+
+import { Funscript, FunscriptAction } from "./device-interface";
+import {
+  PRIMARY_AXIS,
+  getAxisActions,
+  getFunscriptAxisIds,
+  resolveAxisId,
+} from "./funscript-axes";
+
+/**
+ * Options for serializing to funscript JSON
+ */
+export interface SerializeFunscriptOptions {
+  pretty?: boolean | number; // Indent output (true = 2 spaces), compact by default
+  precision?: number; // Decimal places kept for positions (default 0)
+  includeMetadata?: boolean; // Write the metadata block (default true)
+  includeAxes?: boolean; // Write additional axes as single-file `axes` (default true)
+}
+
+/**
+ * Options for serializing to CSV
+ */
+export interface SerializeCSVOptions {
+  axis?: string; // Axis id or name to write (default L0)
+  header?: boolean; // Write an "at,pos" header line (default false)
+  precision?: number; // Decimal places kept for positions (default 0)
+  lineEnding?: string; // Line separator (default "\n")
+}
+
+/**
+ * Serialize a funscript to `.funscript` JSON
+ * @param funscript The funscript to serialize
+ * @param options Output options
+ */
+export function serializeFunscript(
+  funscript: Funscript,
+  options: SerializeFunscriptOptions = {}
+): string {
+  const precision = options.precision ?? 0;
+  const { actions, axes, metadata, version, inverted, range, ...rest } =
+    funscript;
+
+  const output: Record<string, unknown> = {
+    version: version ?? "1.0",
+    inverted: inverted ?? false,
+    range: range ?? 100,
+    ...rest,
+  };
+
+  if (options.includeMetadata !== false && metadata) {
+    output.metadata = metadata;
+  }
+
+  output.actions = serializeActions(actions, precision);
+
+  if (options.includeAxes !== false && axes && axes.length > 0) {
+    output.axes = axes.map((axis) => ({
+      ...axis,
+      actions: serializeActions(axis.actions, precision),
+    }));
+  }
+
+  const indent = options.pretty === true ? 2 : options.pretty || undefined;
+  return JSON.stringify(output, null, indent);
+}
+
+/**
+ * Serialize every axis of a funscript to its own `.funscript` JSON,
+ * for the sibling file convention (`video.funscript`, `video.twist.funscript`)
+ * @returns JSON strings keyed by axis id
+ */
+export function serializeFunscriptAxes(
+  funscript: Funscript,
+  options: SerializeFunscriptOptions = {}
+): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const axisId of getFunscriptAxisIds(funscript)) {
+    const axisScript: Funscript = {
+      ...funscript,
+      actions: getAxisActions(funscript, axisId) ?? [],
+    };
+    delete axisScript.axes;
+
+    result[axisId] = serializeFunscript(axisScript, {
+      ...options,
+      includeAxes: false,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Serialize one axis of a funscript to two-column CSV (at,pos)
+ * @param funscript The funscript to serialize
+ * @param options Output options
+ */
+export function serializeFunscriptToCSV(
+  funscript: Funscript,
+  options: SerializeCSVOptions = {}
+): string {
+  const axisId = options.axis
+    ? resolveAxisId(options.axis) ?? options.axis
+    : PRIMARY_AXIS;
+  const actions = getAxisActions(funscript, axisId) ?? [];
+  const lines = serializeActions(actions, options.precision ?? 0).map(
+    (action) => `${action.at},${action.pos}`
+  );
+
+  if (options.header) {
+    lines.unshift("at,pos");
+  }
+
+  return lines.join(options.lineEnding ?? "\n");
+}
+
+/**
+ * Round actions for output: integer milliseconds, positions to `precision`
+ */
+function serializeActions(
+  actions: FunscriptAction[],
+  precision: number
+): FunscriptAction[] {
+  const factor = Math.pow(10, Math.max(0, precision));
+
+  return [...actions]
+    .sort((a, b) => a.at - b.at)
+    .map((action) => ({
+      at: Math.round(action.at),
+      pos: Math.round(action.pos * factor) / factor,
+    }));
+}
@@ -0,0 +1,166 @@
+import { FunscriptAction } from "./device-interface";
+import {
+  findExtremes,
+  measureSimplifyError,
+  simplifyActions,
+  simplifyFunscript,
+} from "./script-simplifier";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+describe("simplifyActions", () => {
+  it("drops actions on a straight line", () => {
+    const result = simplifyActions(
+      actions([0, 0], [100, 25], [200, 50], [300, 75], [400, 100])
+    );
+
+    expect(result.actions).toEqual(actions([0, 0], [400, 100]));
+    expect(result.report).toMatchObject({
+      originalCount: 5,
+      count: 2,
+      maxError: 0,
+    });
+  });
+
+  it("keeps actions further than the tolerance from the line", () => {
+    const input = actions([0, 0], [100, 60], [200, 50], [300, 100]);
+
+    expect(simplifyActions(input, { tolerance: 5 }).actions).toEqual(input);
+    expect(
+      simplifyActions(input, { tolerance: 30, preserveExtremes: false })
+        .actions
+    ).toEqual(actions([0, 0], [300, 100]));
+  });
+
+  it("keeps peaks and valleys by default", () => {
+    const input = actions([0, 0], [100, 100], [200, 0], [300, 100]);
+
+    expect(simplifyActions(input, { tolerance: 99 }).actions).toEqual(input);
+    expect(
+      simplifyActions(input, { tolerance: 99, preserveExtremes: false })
+        .actions
+    ).toEqual(actions([0, 0], [300, 100]));
+  });
+
+  it("reports the error of removed actions", () => {
+    const result = simplifyActions(
+      actions([0, 0], [100, 40], [200, 100]),
+      { tolerance: 20, preserveExtremes: false }
+    );
+
+    expect(result.actions).toEqual(actions([0, 0], [200, 100]));
+    expect(result.report.maxError).toBe(10);
+    expect(result.report.meanError).toBe(3.333);
+  });
+
+  it("raises the tolerance until maxPoints fit", () => {
+    const input = actions(
+      [0, 0],
+      [100, 30],
+      [200, 20],
+      [300, 60],
+      [400, 50],
+      [500, 100]
+    );
+
+    const result = simplifyActions(input, {
+      maxPoints: 3,
+      preserveExtremes: false,
+    });
+
+    expect(result.actions.length).toBeLessThanOrEqual(3);
+    expect(result.actions[0]).toEqual(input[0]);
+    expect(result.actions[result.actions.length - 1]).toEqual(input[5]);
+  });
+
+  describe("minSpacingMs", () => {
+    it("drops crowded actions", () => {
+      const result = simplifyActions(
+        actions([0, 0], [20, 10], [100, 50], [120, 60], [200, 100]),
+        { minSpacingMs: 50, preserveExtremes: false, tolerance: 100 }
+      );
+
+      expect(result.actions).toEqual(actions([0, 0], [200, 100]));
+    });
+
+    it("prefers a peak over a crowded action before it", () => {
+      const result = simplifyActions(
+        actions([0, 0], [100, 50], [120, 100], [300, 0]),
+        { minSpacingMs: 50 }
+      );
+
+      expect(result.actions).toEqual(actions([0, 0], [120, 100], [300, 0]));
+    });
+
+    it("keeps the last action when everything is within the spacing", () => {
+      const result = simplifyActions(
+        actions([0, 0], [10, 50], [20, 100]),
+        { minSpacingMs: 50 }
+      );
+
+      expect(result.actions).toEqual(actions([0, 0], [20, 100]));
+    });
+
+    it("replaces a crowded action with the last action", () => {
+      const result = simplifyActions(
+        actions([0, 0], [100, 40], [110, 70], [120, 100]),
+        { minSpacingMs: 50 }
+      );
+
+      expect(result.actions).toEqual(actions([0, 0], [120, 100]));
+    });
+  });
+});
+
+describe("simplifyFunscript", () => {
+  it("simplifies every axis and reports them separately", () => {
+    const line = actions([0, 0], [100, 50], [200, 100]);
+    const { funscript, report } = simplifyFunscript({
+      actions: line,
+      axes: [{ id: "R0", actions: line }],
+    });
+
+    expect(funscript.actions).toHaveLength(2);
+    expect(funscript.axes![0].actions).toHaveLength(2);
+    expect(Object.keys(report.axes).sort()).toEqual(["L0", "R0"]);
+    expect(report).toMatchObject({ originalCount: 6, count: 4 });
+  });
+
+  it("limits simplification to one axis", () => {
+    const line = actions([0, 0], [100, 50], [200, 100]);
+    const { funscript } = simplifyFunscript(
+      { actions: line, axes: [{ id: "R0", actions: line }] },
+      { axis: "R0" }
+    );
+
+    expect(funscript.actions).toHaveLength(3);
+    expect(funscript.axes![0].actions).toHaveLength(2);
+  });
+});
+
+describe("findExtremes", () => {
+  it("ignores reversals within the threshold", () => {
+    const input = actions([0, 0], [100, 90], [200, 85], [300, 100], [400, 0]);
+
+    expect(findExtremes(input, 10)).toEqual([
+      false,
+      false,
+      false,
+      true,
+      false,
+    ]);
+  });
+});
+
+describe("measureSimplifyError", () => {
+  it("measures against the interpolated simplified track", () => {
+    expect(
+      measureSimplifyError(
+        actions([0, 0], [50, 80], [100, 0]),
+        actions([0, 0], [100, 0])
+      )
+    ).toEqual({ originalCount: 3, count: 2, maxError: 80, meanError: 26.667 });
+  });
+});
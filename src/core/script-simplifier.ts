@@ -0,0 +1,343 @@
+/**
+ * Script Simplifier
+ *
+ * Reduces the number of actions of a script for devices and uploads with
+ * limited capacity. Points are dropped Ramer-Douglas-Peucker style: an
+ * action is only removed if the line between its kept neighbours passes
+ * within the tolerance of it. Peaks and valleys are kept by default so
+ * strokes keep their full length.
+ */
+
+import { Funscript, FunscriptAction } from "./device-interface";
+import {
+  getAxisActions,
+  mapFunscriptAxes,
+  resolveAxisId,
+  setAxisActions,
+} from "./funscript-axes";
+import { FunscriptTimeline } from "./script-timeline";
+import { getNumberParam, registerScriptTransform } from "./script-transforms";
+
+/**
+ * Simplification options
+ */
+export interface SimplifyOptions {
+  tolerance?: number; // Maximum position error of a removed action (default 0)
+  minSpacingMs?: number; // Minimum time between kept actions
+  maxPoints?: number; // Maximum number of actions, raises the tolerance until they fit
+  preserveExtremes?: boolean; // Keep peaks and valleys of reversals above the tolerance (default true)
+}
+
+/**
+ * Error introduced by simplifying a track
+ */
+export interface SimplifyReport {
+  originalCount: number; // Actions before simplifying
+  count: number; // Actions after simplifying
+  maxError: number; // Largest position difference at a removed action
+  meanError: number; // Average position difference over all original actions
+}
+
+/**
+ * Error introduced by simplifying a funscript, in total and per axis
+ */
+export interface FunscriptSimplifyReport extends SimplifyReport {
+  axes: Record<string, SimplifyReport>;
+}
+
+// Tolerance search steps when fitting maxPoints
+const MAX_POINTS_SEARCH_STEPS = 16;
+
+/**
+ * Simplify a sorted action sequence
+ * @param actions Actions sorted by timestamp
+ * @param options Simplification options
+ * @returns The kept actions and the error they introduce
+ */
+export function simplifyActions(
+  actions: FunscriptAction[],
+  options: SimplifyOptions = {}
+): { actions: FunscriptAction[]; report: SimplifyReport } {
+  const tolerance = Math.max(0, options.tolerance ?? 0);
+  const preserveExtremes = options.preserveExtremes !== false;
+  const spaced =
+    options.minSpacingMs && options.minSpacingMs > 0
+      ? applyMinSpacing(actions, options.minSpacingMs, tolerance)
+      : actions;
+
+  let result = reduceActions(spaced, tolerance, preserveExtremes);
+
+  const maxPoints = options.maxPoints;
+  if (maxPoints && maxPoints >= 2 && result.length > maxPoints) {
+    result = fitMaxPoints(spaced, tolerance, maxPoints, preserveExtremes);
+  }
+
+  return {
+    actions: result.map((action) => ({ ...action })),
+    report: measureSimplifyError(actions, result),
+  };
+}
+
+/**
+ * Simplify the axes of a funscript. The rotation track is not changed.
+ * @param funscript The funscript to simplify
+ * @param options Simplification options, `axis` limits it to one axis
+ */
+export function simplifyFunscript(
+  funscript: Funscript,
+  options: SimplifyOptions & { axis?: string } = {}
+): { funscript: Funscript; report: FunscriptSimplifyReport } {
+  const axes: Record<string, SimplifyReport> = {};
+  let result: Funscript;
+
+  if (options.axis) {
+    const actions = getAxisActions(funscript, options.axis);
+    if (!actions) {
+      return { funscript, report: combineReports(axes) };
+    }
+
+    const simplified = simplifyActions(actions, options);
+    axes[options.axis] = simplified.report;
+    result = setAxisActions(funscript, options.axis, simplified.actions);
+  } else {
+    result = mapFunscriptAxes(funscript, (actions, axisId) => {
+      const simplified = simplifyActions(actions, options);
+      axes[axisId] = simplified.report;
+      return simplified.actions;
+    });
+  }
+
+  return { funscript: result, report: combineReports(axes) };
+}
+
+/**
+ * Measure how far a simplified track is from the original
+ * @param original Original actions sorted by timestamp
+ * @param simplified Simplified actions (linear interpolation)
+ */
+export function measureSimplifyError(
+  original: FunscriptAction[],
+  simplified: FunscriptAction[]
+): SimplifyReport {
+  const timeline = new FunscriptTimeline(simplified);
+  let maxError = 0;
+  let totalError = 0;
+
+  if (simplified.length > 0) {
+    for (const action of original) {
+      const error = Math.abs(action.pos - timeline.positionAt(action.at)!);
+      maxError = Math.max(maxError, error);
+      totalError += error;
+    }
+  }
+
+  return {
+    originalCount: original.length,
+    count: simplified.length,
+    maxError: roundError(maxError),
+    meanError: roundError(
+      original.length > 0 ? totalError / original.length : 0
+    ),
+  };
+}
+
+/**
+ * Mark the peaks and valleys of the movement. Reversals of at most
+ * `threshold` units are noise and don't end a stroke.
+ * @param actions Actions sorted by timestamp
+ * @returns Per action, whether it is a peak or valley
+ */
+export function findExtremes(
+  actions: FunscriptAction[],
+  threshold: number
+): boolean[] {
+  const extremes = new Array<boolean>(actions.length).fill(false);
+  let direction = 0;
+  let extreme = 0;
+
+  for (let i = 1; i < actions.length; i++) {
+    const delta = actions[i].pos - actions[extreme].pos;
+
+    if (direction === 0 || Math.sign(delta) === direction) {
+      if (Math.abs(delta) > (direction === 0 ? threshold : 0)) {
+        direction = Math.sign(delta);
+        extreme = i;
+      }
+    } else if (Math.abs(delta) > threshold) {
+      extremes[extreme] = true;
+      direction = -direction;
+      extreme = i;
+    }
+  }
+
+  return extremes;
+}
+
+/**
+ * Drop actions closer than `minSpacingMs` to the previous kept one.
+ * A peak or valley replaces a crowded non-extreme action before it. The first
+ * and last action are always kept, even if they are closer than the spacing.
+ */
+function applyMinSpacing(
+  actions: FunscriptAction[],
+  minSpacingMs: number,
+  tolerance: number
+): FunscriptAction[] {
+  if (actions.length <= 2) {
+    return actions;
+  }
+
+  const extremes = findExtremes(actions, tolerance);
+  const kept: number[] = [0];
+
+  for (let i = 1; i < actions.length; i++) {
+    const last = kept[kept.length - 1];
+
+    if (actions[i].at - actions[last].at >= minSpacingMs) {
+      kept.push(i);
+    } else if (i === actions.length - 1 && last === 0) {
+      kept.push(i);
+    } else if (
+      last !== 0 &&
+      (i === actions.length - 1 || (extremes[i] && !extremes[last]))
+    ) {
+      kept[kept.length - 1] = i;
+    }
+  }
+
+  return kept.map((i) => actions[i]);
+}
+
+/**
+ * Ramer-Douglas-Peucker reduction with the position difference at the
+ * action's time as the distance
+ */
+function reduceActions(
+  actions: FunscriptAction[],
+  tolerance: number,
+  preserveExtremes: boolean
+): FunscriptAction[] {
+  if (actions.length <= 2) {
+    return actions;
+  }
+
+  const keep = preserveExtremes
+    ? findExtremes(actions, tolerance)
+    : new Array<boolean>(actions.length).fill(false);
+  keep[0] = true;
+  keep[actions.length - 1] = true;
+
+  // Split at the points that are always kept, reduce every span between them
+  const stack: [number, number][] = [];
+  let anchor = 0;
+  for (let i = 1; i < actions.length; i++) {
+    if (keep[i]) {
+      stack.push([anchor, i]);
+      anchor = i;
+    }
+  }
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const from = actions[start];
+    const to = actions[end];
+    const duration = to.at - from.at;
+    let maxDistance = -1;
+    let index = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const progress = duration > 0 ? (actions[i].at - from.at) / duration : 0;
+      const expected = from.pos + (to.pos - from.pos) * progress;
+      const distance = Math.abs(actions[i].pos - expected);
+
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index >= 0 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return actions.filter((_, i) => keep[i]);
+}
+
+/**
+ * Find the smallest tolerance (within the search steps) that reduces the
+ * actions to at most `maxPoints`. A tolerance of 100 always fits: it keeps
+ * only the first and last action.
+ */
+function fitMaxPoints(
+  actions: FunscriptAction[],
+  tolerance: number,
+  maxPoints: number,
+  preserveExtremes: boolean
+): FunscriptAction[] {
+  let best = reduceActions(actions, 100, preserveExtremes);
+
+  let low = tolerance;
+  let high = 100;
+
+  for (let step = 0; step < MAX_POINTS_SEARCH_STEPS; step++) {
+    const mid = (low + high) / 2;
+    const result = reduceActions(actions, mid, preserveExtremes);
+
+    if (result.length <= maxPoints) {
+      best = result;
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Combine per-axis reports into a total
+ */
+function combineReports(
+  axes: Record<string, SimplifyReport>
+): FunscriptSimplifyReport {
+  const reports = Object.values(axes);
+  const originalCount = reports.reduce((sum, r) => sum + r.originalCount, 0);
+
+  return {
+    originalCount,
+    count: reports.reduce((sum, r) => sum + r.count, 0),
+    maxError: reports.reduce((max, r) => Math.max(max, r.maxError), 0),
+    meanError: roundError(
+      originalCount > 0
+        ? reports.reduce((sum, r) => sum + r.meanError * r.originalCount, 0) /
+            originalCount
+        : 0
+    ),
+    axes,
+  };
+}
+
+/**
+ * Round an error to 3 decimals, hiding floating point noise
+ */
+function roundError(error: number): number {
+  return Math.round(error * 1000) / 1000;
+}
+
+/**
+ * simplify: { tolerance?, minSpacingMs?, maxPoints?, preserveExtremes?, axis? }
+ * - drop actions that barely change the movement
+ */
+registerScriptTransform("simplify", (funscript, params) => {
+  const axis = typeof params.axis === "string" ? params.axis : undefined;
+
+  return simplifyFunscript(funscript, {
+    tolerance: getNumberParam(params, "tolerance"),
+    minSpacingMs: getNumberParam(params, "minSpacingMs"),
+    maxPoints: getNumberParam(params, "maxPoints"),
+    preserveExtremes: params.preserveExtremes !== false,
+    axis: axis ? resolveAxisId(axis) ?? axis : undefined,
+  }).funscript;
+});
@@ -0,0 +1,148 @@
+import { FunscriptAction } from "./device-interface";
+import { FunscriptTimeline, findActionIndex } from "./script-timeline";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+// Up, down and halfway up again
+const timeline = new FunscriptTimeline(
+  actions([0, 0], [100, 100], [200, 0], [300, 50])
+);
+
+describe("FunscriptTimeline", () => {
+  it("sorts the actions and reads an axis of a funscript", () => {
+    const axis = new FunscriptTimeline(
+      {
+        actions: [],
+        axes: [{ id: "R0", actions: actions([100, 10], [0, 90]) }],
+      },
+      { axis: "R0" }
+    );
+
+    expect(axis.actions).toEqual(actions([0, 90], [100, 10]));
+    expect([axis.startMs, axis.endMs, axis.length]).toEqual([0, 100, 2]);
+  });
+
+  describe("positionAt", () => {
+    it("returns the action positions at their times", () => {
+      for (const action of timeline.actions) {
+        for (const interpolation of [
+          "step",
+          "linear",
+          "cubic",
+          "monotone",
+          "ease",
+        ] as const) {
+          expect(timeline.positionAt(action.at, interpolation)).toBeCloseTo(
+            action.pos
+          );
+        }
+      }
+    });
+
+    it("holds the first and last position outside the actions", () => {
+      expect(timeline.positionAt(-100)).toBe(0);
+      expect(timeline.positionAt(1000)).toBe(50);
+      expect(new FunscriptTimeline([]).positionAt(0)).toBeNull();
+    });
+
+    it("interpolates between actions", () => {
+      expect(timeline.positionAt(50)).toBe(50);
+      expect(timeline.positionAt(250)).toBe(25);
+      expect(timeline.positionAt(150, "step")).toBe(100);
+      expect(timeline.positionAt(50, "ease")).toBeCloseTo(50);
+      expect(timeline.positionAt(25, "ease")).toBeCloseTo(14.64, 2);
+    });
+
+    it("uses the later of actions sharing a timestamp", () => {
+      const duplicates = new FunscriptTimeline(
+        actions([0, 0], [100, 20], [100, 80], [200, 80])
+      );
+
+      expect(duplicates.positionAt(50)).toBe(10);
+      expect(duplicates.positionAt(100)).toBe(80);
+    });
+
+    it("doesn't overshoot peaks with monotone splines", () => {
+      // A slow rise before a sharp drop makes Catmull-Rom overshoot
+      const peak = new FunscriptTimeline(
+        actions([0, 0], [10, 50], [110, 60], [120, 0])
+      );
+      const positions = (interpolation: "cubic" | "monotone") =>
+        peak.sample(0, 120, 5, interpolation).map((action) => action.pos);
+
+      expect(Math.max(...positions("cubic"))).toBeGreaterThan(60);
+      expect(Math.max(...positions("monotone"))).toBeLessThanOrEqual(60);
+      expect(Math.min(...positions("monotone"))).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("velocityAt", () => {
+    it("has the sign of the movement and units per second", () => {
+      expect(timeline.velocityAt(50)).toBe(1000);
+      expect(timeline.velocityAt(150)).toBe(-1000);
+      expect(timeline.velocityAt(250)).toBe(500);
+    });
+
+    it("peaks halfway with ease and stops at monotone peaks", () => {
+      expect(timeline.velocityAt(50, "ease")).toBeCloseTo(500 * Math.PI);
+      expect(timeline.velocityAt(100, "monotone")).toBe(0);
+      expect(timeline.velocityAt(150, "monotone")).toBeLessThan(0);
+    });
+
+    it("is 0 for step interpolation and outside the actions", () => {
+      expect(timeline.velocityAt(50, "step")).toBe(0);
+      expect(timeline.velocityAt(-10)).toBe(0);
+      expect(timeline.velocityAt(300)).toBe(0);
+    });
+  });
+
+  describe("range queries", () => {
+    it("finds the segment playing at a time", () => {
+      expect(timeline.segmentAt(150)).toEqual({
+        index: 1,
+        from: { at: 100, pos: 100 },
+        to: { at: 200, pos: 0 },
+      });
+      expect(timeline.segmentAt(-1)).toBeNull();
+      expect(timeline.segmentAt(300)).toBeNull();
+    });
+
+    it("gets the actions within a range, edges included", () => {
+      expect(timeline.getActionsInRange(100, 200)).toEqual(
+        actions([100, 100], [200, 0])
+      );
+      expect(timeline.getActionsInRange(110, 190)).toEqual([]);
+    });
+
+    it("includes interpolated edges in the bounds", () => {
+      expect(timeline.getRangeBounds(150, 250)).toEqual({ min: 0, max: 50 });
+      expect(timeline.getRangeBounds(50, 150)).toEqual({ min: 50, max: 100 });
+    });
+
+    it("samples at a fixed interval", () => {
+      expect(timeline.sample(0, 100, 50)).toEqual(
+        actions([0, 0], [50, 50], [100, 100])
+      );
+      expect(timeline.sample(0, 100, 0)).toEqual([]);
+    });
+  });
+});
+
+describe("findActionIndex", () => {
+  const track = [{ at: 0 }, { at: 100 }, { at: 100 }, { at: 200 }];
+
+  it("finds the last entry at or before a time", () => {
+    expect(findActionIndex(track, -1)).toBe(-1);
+    expect(findActionIndex(track, 0)).toBe(0);
+    expect(findActionIndex(track, 99)).toBe(0);
+    expect(findActionIndex(track, 250)).toBe(3);
+    expect(findActionIndex([], 0)).toBe(-1);
+  });
+
+  it("picks the last of duplicate timestamps", () => {
+    expect(findActionIndex(track, 100)).toBe(2);
+    expect(findActionIndex(track, 150)).toBe(2);
+  });
+});
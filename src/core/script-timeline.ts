@@ -0,0 +1,424 @@
+/**
+ * Script Timeline
+ *
+ * Position and velocity queries over the actions of a funscript axis.
+ * Actions are sorted once; lookups are binary searches, and spline tangents
+ * are computed on first use of an interpolation.
+ */
+
+import { Funscript, FunscriptAction } from "./device-interface";
+import { PRIMARY_AXIS, getAxisActions } from "./funscript-axes";
+
+/**
+ * How positions between two actions are computed
+ * - step: hold the previous position until the next action
+ * - linear: straight line between actions (what devices do)
+ * - cubic: smooth Catmull-Rom spline through the actions, may overshoot
+ * - monotone: smooth spline that never overshoots the actions
+ * - ease: ease in and out of every action (cosine)
+ */
+export type TimelineInterpolation =
+  | "step"
+  | "linear"
+  | "cubic"
+  | "monotone"
+  | "ease";
+
+/**
+ * Timeline options
+ */
+export interface FunscriptTimelineOptions {
+  axis?: string; // Axis to read from a funscript (default "L0")
+  interpolation?: TimelineInterpolation; // Default interpolation (default "linear")
+}
+
+/**
+ * The actions around a point in time
+ */
+export interface TimelineSegment {
+  index: number; // Index of the action starting the segment
+  from: FunscriptAction;
+  to: FunscriptAction;
+}
+
+/**
+ * Position timeline of one funscript axis
+ */
+export class FunscriptTimeline {
+  readonly actions: FunscriptAction[];
+  readonly interpolation: TimelineInterpolation;
+
+  // Spline tangents (position units per ms) per interpolation
+  private tangents: Partial<Record<"cubic" | "monotone", number[]>> = {};
+
+  /**
+   * @param source A funscript (the `axis` option selects the axis) or actions
+   * @param options Timeline options
+   */
+  constructor(
+    source: Funscript | FunscriptAction[],
+    options: FunscriptTimelineOptions = {}
+  ) {
+    const actions = Array.isArray(source)
+      ? source
+      : getAxisActions(source, options.axis ?? PRIMARY_AXIS) ?? [];
+
+    this.actions = [...actions].sort((a, b) => a.at - b.at);
+    this.interpolation = options.interpolation ?? "linear";
+  }
+
+  /**
+   * Number of actions
+   */
+  get length(): number {
+    return this.actions.length;
+  }
+
+  /**
+   * Time of the first action (0 if empty)
+   */
+  get startMs(): number {
+    return this.actions.length > 0 ? this.actions[0].at : 0;
+  }
+
+  /**
+   * Time of the last action (0 if empty)
+   */
+  get endMs(): number {
+    return this.actions.length > 0
+      ? this.actions[this.actions.length - 1].at
+      : 0;
+  }
+
+  /**
+   * Find the last action at or before a time
+   * @returns The action index, or -1 before the first action
+   */
+  indexAt(timeMs: number): number {
+    return findActionIndex(this.actions, timeMs);
+  }
+
+  /**
+   * Get the segment playing at a time
+   * @returns The segment, or null before the first and after the last action
+   */
+  segmentAt(timeMs: number): TimelineSegment | null {
+    const index = this.indexAt(timeMs);
+    if (index < 0 || index >= this.actions.length - 1) {
+      return null;
+    }
+
+    return { index, from: this.actions[index], to: this.actions[index + 1] };
+  }
+
+  /**
+   * Get the position at a time. Before the first and after the last action
+   * the position of that action is held.
+   * @param timeMs Time in milliseconds
+   * @param interpolation Overrides the timeline's interpolation
+   * @returns Position 0-100, or null if the timeline is empty
+   */
+  positionAt(
+    timeMs: number,
+    interpolation: TimelineInterpolation = this.interpolation
+  ): number | null {
+    if (this.actions.length === 0) {
+      return null;
+    }
+
+    const index = this.indexAt(timeMs);
+    if (index < 0) {
+      return this.actions[0].pos;
+    }
+    if (index >= this.actions.length - 1) {
+      return this.actions[this.actions.length - 1].pos;
+    }
+
+    const from = this.actions[index];
+    const to = this.actions[index + 1];
+    const duration = to.at - from.at;
+    if (interpolation === "step" || duration <= 0) {
+      return from.pos;
+    }
+
+    const u = (timeMs - from.at) / duration;
+
+    switch (interpolation) {
+      case "ease":
+        return (
+          from.pos + ((to.pos - from.pos) * (1 - Math.cos(Math.PI * u))) / 2
+        );
+      case "cubic":
+      case "monotone": {
+        const m = this.getTangents(interpolation);
+        const value = hermite(
+          u,
+          from.pos,
+          to.pos,
+          m[index] * duration,
+          m[index + 1] * duration
+        );
+        return Math.min(100, Math.max(0, value));
+      }
+      default:
+        return from.pos + (to.pos - from.pos) * u;
+    }
+  }
+
+  /**
+   * Get the velocity at a time
+   * @param timeMs Time in milliseconds
+   * @param interpolation Overrides the timeline's interpolation
+   * @returns Position units per second (positive when moving up),
+   *   0 outside the timeline and for step interpolation
+   */
+  velocityAt(
+    timeMs: number,
+    interpolation: TimelineInterpolation = this.interpolation
+  ): number {
+    const segment = this.segmentAt(timeMs);
+    if (!segment || interpolation === "step") {
+      return 0;
+    }
+
+    const { from, to, index } = segment;
+    const duration = to.at - from.at;
+    if (duration <= 0) {
+      return 0;
+    }
+
+    const u = (timeMs - from.at) / duration;
+    const delta = to.pos - from.pos;
+    let perMs: number;
+
+    switch (interpolation) {
+      case "ease":
+        perMs = (delta * Math.PI * Math.sin(Math.PI * u)) / (2 * duration);
+        break;
+      case "cubic":
+      case "monotone": {
+        const m = this.getTangents(interpolation);
+        perMs =
+          hermiteDerivative(
+            u,
+            from.pos,
+            to.pos,
+            m[index] * duration,
+            m[index + 1] * duration
+          ) / duration;
+        break;
+      }
+      default:
+        perMs = delta / duration;
+    }
+
+    return perMs * 1000;
+  }
+
+  /**
+   * Get the actions within a time range
+   * @param startMs Range start (inclusive)
+   * @param endMs Range end (inclusive)
+   */
+  getActionsInRange(startMs: number, endMs: number): FunscriptAction[] {
+    let first = this.indexAt(startMs);
+    while (first >= 0 && this.actions[first].at >= startMs) {
+      first--;
+    }
+    const last = this.indexAt(endMs);
+
+    return this.actions.slice(first + 1, last + 1);
+  }
+
+  /**
+   * Get the lowest and highest position within a time range, including
+   * interpolated positions at the range edges
+   * @returns The bounds, or null if the timeline is empty
+   */
+  getRangeBounds(
+    startMs: number,
+    endMs: number,
+    interpolation: TimelineInterpolation = this.interpolation
+  ): { min: number; max: number } | null {
+    const edges = [
+      this.positionAt(startMs, interpolation),
+      this.positionAt(endMs, interpolation),
+    ];
+    if (edges[0] === null || edges[1] === null) {
+      return null;
+    }
+
+    let min = Math.min(edges[0], edges[1]);
+    let max = Math.max(edges[0], edges[1]);
+    for (const action of this.getActionsInRange(startMs, endMs)) {
+      min = Math.min(min, action.pos);
+      max = Math.max(max, action.pos);
+    }
+
+    return { min, max };
+  }
+
+  /**
+   * Sample positions at a fixed interval
+   * @param startMs First sample time
+   * @param endMs Last sample time (inclusive)
+   * @param intervalMs Time between samples
+   * @returns Sampled actions (empty if the timeline is empty)
+   */
+  sample(
+    startMs: number,
+    endMs: number,
+    intervalMs: number,
+    interpolation: TimelineInterpolation = this.interpolation
+  ): FunscriptAction[] {
+    if (this.actions.length === 0 || intervalMs <= 0) {
+      return [];
+    }
+
+    const samples: FunscriptAction[] = [];
+    for (let at = startMs; at <= endMs; at += intervalMs) {
+      samples.push({ at, pos: this.positionAt(at, interpolation)! });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Spline tangents per action, computed on first use
+   */
+  private getTangents(interpolation: "cubic" | "monotone"): number[] {
+    const cached = this.tangents[interpolation];
+    if (cached) {
+      return cached;
+    }
+
+    const tangents =
+      interpolation === "cubic"
+        ? getCatmullRomTangents(this.actions)
+        : getMonotoneTangents(this.actions);
+    this.tangents[interpolation] = tangents;
+
+    return tangents;
+  }
+}
+
+/**
+ * Find the last entry at or before a time in a sorted track
+ * @param track Entries sorted by time (actions, rotation actions)
+ * @returns The index, or -1 before the first entry
+ */
+export function findActionIndex(
+  track: { at: number }[],
+  timeMs: number
+): number {
+  let low = 0;
+  let high = track.length - 1;
+  let index = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (track[mid].at <= timeMs) {
+      index = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Slope between two actions in position units per ms (0 for equal times)
+ */
+function getSlope(a: FunscriptAction, b: FunscriptAction): number {
+  return b.at > a.at ? (b.pos - a.pos) / (b.at - a.at) : 0;
+}
+
+/**
+ * Catmull-Rom tangents: slope between the neighbouring actions
+ */
+function getCatmullRomTangents(actions: FunscriptAction[]): number[] {
+  return actions.map((_, i) =>
+    getSlope(
+      actions[Math.max(0, i - 1)],
+      actions[Math.min(actions.length - 1, i + 1)]
+    )
+  );
+}
+
+/**
+ * Monotone tangents (Fritsch-Butland): zero at peaks and valleys, otherwise
+ * a weighted harmonic mean of the neighbouring slopes
+ */
+function getMonotoneTangents(actions: FunscriptAction[]): number[] {
+  const n = actions.length;
+
+  return actions.map((action, i) => {
+    if (n < 2) {
+      return 0;
+    }
+    if (i === 0) {
+      return getSlope(action, actions[1]);
+    }
+    if (i === n - 1) {
+      return getSlope(actions[i - 1], action);
+    }
+
+    const before = getSlope(actions[i - 1], action);
+    const after = getSlope(action, actions[i + 1]);
+    if (before * after <= 0) {
+      return 0;
+    }
+
+    const h0 = action.at - actions[i - 1].at;
+    const h1 = actions[i + 1].at - action.at;
+    const w0 = 2 * h1 + h0;
+    const w1 = h1 + 2 * h0;
+
+    return (w0 + w1) / (w0 / before + w1 / after);
+  });
+}
+
+/**
+ * Cubic Hermite interpolation on the unit interval
+ * @param m0 Start tangent scaled to the segment duration
+ * @param m1 End tangent scaled to the segment duration
+ */
+function hermite(
+  u: number,
+  p0: number,
+  p1: number,
+  m0: number,
+  m1: number
+): number {
+  const u2 = u * u;
+  const u3 = u2 * u;
+
+  return (
+    (2 * u3 - 3 * u2 + 1) * p0 +
+    (u3 - 2 * u2 + u) * m0 +
+    (-2 * u3 + 3 * u2) * p1 +
+    (u3 - u2) * m1
+  );
+}
+
+/**
+ * Derivative of hermite() with respect to u
+ */
+function hermiteDerivative(
+  u: number,
+  p0: number,
+  p1: number,
+  m0: number,
+  m1: number
+): number {
+  const u2 = u * u;
+
+  return (
+    (6 * u2 - 6 * u) * p0 +
+    (3 * u2 - 4 * u + 1) * m0 +
+    (-6 * u2 + 6 * u) * p1 +
+    (3 * u2 - 2 * u) * m1
+  );
+}
@@ -0,0 +1,43 @@
+import { FunscriptAction } from "./device-interface";
+import { applyScriptTransforms, limitActionSpeed } from "./script-transforms";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+describe("limitActionSpeed", () => {
+  it("keeps segments within the speed as they are", () => {
+    const input = actions([0, 0], [100, 50], [200, 0]);
+
+    expect(limitActionSpeed(input, 500)).toEqual(input);
+  });
+
+  it("moves a clamped segment exactly as far as allowed", () => {
+    expect(limitActionSpeed(actions([0, 0], [75, 100]), 500)).toEqual(
+      actions([0, 0], [75, 37.5])
+    );
+  });
+
+  it("allows partial movement on segments shorter than one unit", () => {
+    expect(limitActionSpeed(actions([0, 50], [1, 0]), 500)).toEqual(
+      actions([0, 50], [1, 49.5])
+    );
+  });
+
+  it("continues from the clamped position", () => {
+    expect(
+      limitActionSpeed(actions([0, 0], [100, 100], [200, 100]), 400)
+    ).toEqual(actions([0, 0], [100, 40], [200, 80]));
+  });
+});
+
+describe("speedLimit transform", () => {
+  it("limits the primary axis", () => {
+    const result = applyScriptTransforms(
+      { actions: actions([0, 0], [100, 100]) },
+      [{ name: "speedLimit", params: { maxSpeed: 200 } }]
+    );
+
+    expect(result.actions).toEqual(actions([0, 0], [100, 20]));
+  });
+});
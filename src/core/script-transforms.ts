@@ -0,0 +1,346 @@
+/**
+ * Script Transforms
+ *
+ * Composable transform pipeline applied by loadScript.
+ * Transforms are registered by name and declared in ScriptOptions.transforms,
+ * so every device receives the same processed funscript.
+ */
+
+import {
+  Funscript,
+  FunscriptAction,
+  ScriptTransform,
+} from "./device-interface";
+import {
+  PRIMARY_AXIS,
+  getAxisActions,
+  mapFunscriptAxes,
+  resolveAxisId,
+  setAxisActions,
+} from "./funscript-axes";
+
+/**
+ * A transform function - returns a new funscript, never mutates the input
+ */
+export type ScriptTransformFn = (
+  funscript: Funscript,
+  params: Record<string, unknown>
+) => Funscript;
+
+const transformRegistry: Map<string, ScriptTransformFn> = new Map();
+
+/**
+ * Register a script transform
+ * @param name Name used in ScriptOptions.transforms
+ * @param fn Transform function
+ */
+export function registerScriptTransform(
+  name: string,
+  fn: ScriptTransformFn
+): void {
+  transformRegistry.set(name, fn);
+}
+
+/**
+ * Remove a registered script transform
+ * @returns Whether the transform was registered
+ */
+export function unregisterScriptTransform(name: string): boolean {
+  return transformRegistry.delete(name);
+}
+
+/**
+ * Get a registered script transform
+ */
+export function getScriptTransform(name: string): ScriptTransformFn | undefined {
+  return transformRegistry.get(name);
+}
+
+/**
+ * Get the names of all registered script transforms
+ */
+export function getScriptTransformNames(): string[] {
+  return Array.from(transformRegistry.keys());
+}
+
+/**
+ * Apply a list of transforms in order
+ * @throws Error if a transform is not registered
+ */
+export function applyScriptTransforms(
+  funscript: Funscript,
+  transforms: ScriptTransform[]
+): Funscript {
+  let result = funscript;
+
+  for (const transform of transforms) {
+    const fn = transformRegistry.get(transform.name);
+    if (!fn) {
+      throw new Error(`Unknown script transform: ${transform.name}`);
+    }
+    result = fn(result, transform.params ?? {});
+  }
+
+  return result;
+}
+
+/**
+ * Read a numeric transform parameter
+ * @throws Error if the parameter is present but not a finite number
+ */
+export function getNumberParam(
+  params: Record<string, unknown>,
+  key: string,
+  defaultValue: number
+): number;
+export function getNumberParam(
+  params: Record<string, unknown>,
+  key: string
+): number | undefined;
+export function getNumberParam(
+  params: Record<string, unknown>,
+  key: string,
+  defaultValue?: number
+): number | undefined {
+  const value = params[key];
+
+  if (value === undefined || value === null) {
+    return defaultValue;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Invalid transform parameter "${key}": expected a number`);
+  }
+
+  return value;
+}
+
+/**
+ * Apply a position mapping to the axis named by `params.axis` (default L0)
+ */
+export function mapAxisPositions(
+  funscript: Funscript,
+  params: Record<string, unknown>,
+  fn: (pos: number) => number
+): Funscript {
+  const axisParam = params.axis;
+  const axisId =
+    typeof axisParam === "string"
+      ? resolveAxisId(axisParam) ?? axisParam
+      : PRIMARY_AXIS;
+
+  const actions = getAxisActions(funscript, axisId);
+  if (!actions) {
+    return funscript;
+  }
+
+  return setAxisActions(
+    funscript,
+    axisId,
+    actions.map((action) => ({ ...action, pos: fn(action.pos) }))
+  );
+}
+
+/**
+ * Map the timestamps of every track (all axes and the rotation track).
+ * Actions mapped to null are dropped.
+ */
+export function mapFunscriptTimes(
+  funscript: Funscript,
+  fn: (at: number) => number | null
+): Funscript {
+  const mapTrack = <T extends { at: number }>(track: T[]): T[] =>
+    track.reduce<T[]>((result, action) => {
+      const at = fn(action.at);
+      if (at !== null) {
+        result.push({ ...action, at });
+      }
+      return result;
+    }, []);
+
+  const result = mapFunscriptAxes(funscript, mapTrack);
+  if (funscript.rotation) {
+    result.rotation = mapTrack(funscript.rotation);
+  }
+
+  return result;
+}
+
+/**
+ * Limit the speed of a sorted action sequence.
+ *
+ * Timestamps are kept so peaks stay on the beat; a segment that is too fast
+ * is shortened by moving its target position towards the previous one, so the
+ * device reaches as far as it physically can within the available time.
+ * Shortened positions are not rounded; uploads round them.
+ *
+ * @param actions Actions sorted by timestamp
+ * @param maxSpeed Maximum speed in position units per second
+ */
+export function limitActionSpeed(
+  actions: FunscriptAction[],
+  maxSpeed: number
+): FunscriptAction[] {
+  if (actions.length === 0 || !(maxSpeed > 0)) {
+    return actions;
+  }
+
+  const result: FunscriptAction[] = [{ ...actions[0] }];
+
+  for (let i = 1; i < actions.length; i++) {
+    const prev = result[i - 1];
+    const action = actions[i];
+    const durationMs = action.at - prev.at;
+    const maxDistance = (maxSpeed * Math.max(0, durationMs)) / 1000;
+    const distance = action.pos - prev.pos;
+
+    if (Math.abs(distance) <= maxDistance) {
+      result.push({ ...action });
+    } else {
+      result.push({
+        ...action,
+        pos: prev.pos + Math.sign(distance) * maxDistance,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Limit the speed of the primary axis of a funscript
+ * @param funscript The funscript to limit
+ * @param maxSpeed Maximum speed in position units per second
+ */
+export function limitFunscriptSpeed(
+  funscript: Funscript,
+  maxSpeed: number
+): Funscript {
+  return {
+    ...funscript,
+    actions: limitActionSpeed(funscript.actions, maxSpeed),
+  };
+}
+
+/**
+ * Re-render a funscript for playback at another rate: every track is
+ * stretched in time so playing the result at rate 1 matches playing the
+ * original at `rate`
+ * @param funscript The funscript to scale
+ * @param rate Playback rate (e.g. 0.5 for half speed)
+ * @param maxSpeed Limit the primary axis to this speed after scaling
+ * @throws Error if the rate is not a positive number
+ */
+export function scaleFunscriptTime(
+  funscript: Funscript,
+  rate: number,
+  maxSpeed?: number
+): Funscript {
+  if (!(rate > 0) || !Number.isFinite(rate)) {
+    throw new Error(`Invalid playback rate: ${rate}`);
+  }
+
+  const result = mapFunscriptTimes(funscript, (at) => Math.round(at / rate));
+
+  return maxSpeed ? limitFunscriptSpeed(result, maxSpeed) : result;
+}
+
+/**
+ * Clamp a position to the 0-100 range
+ */
+function clampPosition(pos: number): number {
+  return Math.min(100, Math.max(0, pos));
+}
+
+// ============================================
+// Built-in transforms
+// ============================================
+
+/**
+ * invert: { axis? } - mirror positions (100 - pos)
+ */
+registerScriptTransform("invert", (funscript, params) => {
+  const result = mapAxisPositions(funscript, params, (pos) => 100 - pos);
+  const axis = params.axis;
+
+  if (axis === undefined || resolveAxisId(String(axis)) === PRIMARY_AXIS) {
+    result.inverted = !funscript.inverted;
+  }
+
+  return result;
+});
+
+/**
+ * offset: { ms } - shift all tracks in time, actions moved before 0 are dropped
+ */
+registerScriptTransform("offset", (funscript, params) => {
+  const ms = getNumberParam(params, "ms", 0);
+
+  return mapFunscriptTimes(funscript, (at) => (at + ms >= 0 ? at + ms : null));
+});
+
+/**
+ * range: { min, max, axis? } - remap positions from 0-100 into min-max
+ */
+registerScriptTransform("range", (funscript, params) => {
+  const min = clampPosition(getNumberParam(params, "min", 0));
+  const max = clampPosition(getNumberParam(params, "max", 100));
+
+  return mapAxisPositions(funscript, params, (pos) =>
+    Math.round(min + (pos / 100) * (max - min))
+  );
+});
+
+/**
+ * clamp: { min, max, axis? } - limit positions to min-max
+ */
+registerScriptTransform("clamp", (funscript, params) => {
+  const min = getNumberParam(params, "min", 0);
+  const max = getNumberParam(params, "max", 100);
+
+  return mapAxisPositions(funscript, params, (pos) =>
+    Math.min(max, Math.max(min, pos))
+  );
+});
+
+/**
+ * trim: { start?, end?, rebase? } - keep only actions within [start, end],
+ * optionally moving `start` to time 0
+ */
+registerScriptTransform("trim", (funscript, params) => {
+  const start = getNumberParam(params, "start", 0);
+  const end = getNumberParam(params, "end", Infinity);
+  const shift = params.rebase ? start : 0;
+
+  return mapFunscriptTimes(funscript, (at) =>
+    at >= start && at <= end ? at - shift : null
+  );
+});
+
+/**
+ * speedLimit: { maxSpeed, axis? } - limit movement speed (units/second)
+ */
+registerScriptTransform("speedLimit", (funscript, params) => {
+  const maxSpeed = getNumberParam(params, "maxSpeed", 0);
+  const axis = typeof params.axis === "string" ? params.axis : PRIMARY_AXIS;
+  const axisId = resolveAxisId(axis) ?? axis;
+  const actions = getAxisActions(funscript, axisId);
+
+  if (!actions) {
+    return funscript;
+  }
+
+  return setAxisActions(funscript, axisId, limitActionSpeed(actions, maxSpeed));
+});
+
+/**
+ * timeScale: { rate, maxSpeed? } - stretch all tracks in time for playback
+ * at `rate`, optionally limiting the resulting speed (units/second)
+ */
+registerScriptTransform("timeScale", (funscript, params) =>
+  scaleFunscriptTime(
+    funscript,
+    getNumberParam(params, "rate", 1),
+    getNumberParam(params, "maxSpeed")
+  )
+);
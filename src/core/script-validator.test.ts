@@ -0,0 +1,125 @@
+import { FunscriptAction } from "./device-interface";
+import {
+  formatValidationErrors,
+  repairFunscript,
+  validateFunscript,
+} from "./script-validator";
+
+function actions(...points: [number, number][]): FunscriptAction[] {
+  return points.map(([at, pos]) => ({ at, pos }));
+}
+
+const codes = (content: unknown) =>
+  validateFunscript(content).diagnostics.map((diagnostic) => diagnostic.code);
+
+describe("validateFunscript", () => {
+  it("accepts a well-formed script", () => {
+    expect(
+      validateFunscript({ actions: actions([0, 0], [100, 100]) })
+    ).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it("rejects content without an actions array", () => {
+    expect(codes({ version: "1.0" })).toEqual(["invalid-structure"]);
+    expect(codes({ actions: [] })).toEqual(["empty"]);
+  });
+
+  it("reports each problem with its action and axis", () => {
+    const report = validateFunscript({
+      actions: [
+        { at: -10, pos: 0 },
+        { at: 100, pos: 120 },
+        { at: 100, pos: 50 },
+        { at: 50, pos: 50 },
+        { at: "200", pos: 50 },
+      ],
+    });
+
+    expect(report.valid).toBe(false);
+    expect(
+      report.diagnostics.map(({ code, actionIndex }) => [code, actionIndex])
+    ).toEqual([
+      ["negative-time", 0],
+      ["position-out-of-range", 1],
+      ["duplicate-timestamp", 2],
+      ["unsorted", 3],
+      ["invalid-action", 4],
+    ]);
+    expect(formatValidationErrors(report)).toBe(
+      "3 errors: Negative timestamp -10 (L0 action 0)"
+    );
+  });
+
+  it("reports spacing and gaps as info", () => {
+    const report = validateFunscript(
+      { actions: actions([0, 0], [5, 50], [20005, 0]) },
+      { maxGapMs: 10000 }
+    );
+
+    expect(report.valid).toBe(true);
+    expect(report.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "sub-frame-spacing",
+      "large-gap",
+    ]);
+  });
+
+  it("checks positions against the declared range", () => {
+    expect(codes({ range: 200, actions: actions([0, 0], [100, 150]) })).toEqual(
+      []
+    );
+    expect(codes({ range: 50, actions: actions([0, 0], [100, 80]) })).toEqual([
+      "range-mismatch",
+    ]);
+  });
+
+  it("validates additional axes", () => {
+    const report = validateFunscript({
+      actions: actions([0, 0]),
+      axes: [{ id: "R0", actions: actions([0, 0], [100, 200]) }],
+    });
+
+    expect(report.diagnostics).toMatchObject([
+      { code: "position-out-of-range", axis: "R0", actionIndex: 1 },
+    ]);
+  });
+});
+
+describe("repairFunscript", () => {
+  it("drops invalid and negative actions, sorts and dedupes", () => {
+    const repaired = repairFunscript({
+      actions: [
+        { at: 200, pos: 100 },
+        { at: -10, pos: 0 },
+        { at: 100, pos: 20 },
+        { at: 100, pos: 40 },
+        { at: NaN, pos: 0 },
+        { at: 0, pos: 120.4 },
+      ],
+    });
+
+    expect(repaired.actions).toEqual(actions([0, 100], [100, 40], [200, 100]));
+  });
+
+  it("rescales a declared range to 0-100", () => {
+    const repaired = repairFunscript({
+      range: 200,
+      actions: actions([0, 0], [100, 150]),
+    });
+
+    expect(repaired.actions).toEqual(actions([0, 0], [100, 75]));
+    expect(repaired.range).toBeUndefined();
+  });
+
+  it("produces a script that validates cleanly", () => {
+    const report = validateFunscript(
+      { actions: actions([100, 50], [-5, 0], [100, 60], [0, 0]) },
+      { repair: true }
+    );
+
+    expect(report.valid).toBe(false);
+    expect(validateFunscript(report.repaired)).toEqual({
+      valid: true,
+      diagnostics: [],
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Script Validator
+ *
+ * Produces structured diagnostics for funscripts, so script authors can be
+ * told exactly what is wrong, and optionally repairs them.
+ */
+
+import { Funscript, FunscriptAction, FunscriptAxis } from "./device-interface";
+import { PRIMARY_AXIS } from "./funscript-axes";
+
+/**
+ * Severity of a diagnostic.
+ * Errors make a script invalid, warnings and info are repaired silently by loadScript.
+ */
+export type ScriptDiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Diagnostic codes
+ */
+export type ScriptDiagnosticCode =
+  | "invalid-structure" // Not an object or missing actions array
+  | "invalid-action" // Action is not an object or has non-numeric/NaN values
+  | "negative-time" // Timestamp below 0
+  | "position-out-of-range" // Position outside 0-100 (or 0-range if wider)
+  | "unsorted" // Timestamp lower than the previous one
+  | "duplicate-timestamp" // Same timestamp as the previous action
+  | "large-gap" // Gap between actions above maxGapMs
+  | "sub-frame-spacing" // Actions closer than minSpacingMs
+  | "range-mismatch" // Positions above the declared `range`
+  | "empty"; // No actions
+
+/**
+ * A single validation finding
+ */
+export interface ScriptDiagnostic {
+  code: ScriptDiagnosticCode;
+  severity: ScriptDiagnosticSeverity;
+  message: string;
+  actionIndex?: number; // Index in the actions array of the axis
+  axis?: string; // Axis id, L0 for the main actions
+}
+
+/**
+ * Options for validating a funscript
+ */
+export interface ScriptValidationOptions {
+  repair?: boolean; // Return a repaired copy of the script
+  maxGapMs?: number; // Gaps above this are reported (default 300000)
+  minSpacingMs?: number; // Spacing below this is reported (default one frame at 60fps)
+}
+
+/**
+ * Result of validating a funscript
+ */
+export interface ScriptValidationReport {
+  valid: boolean; // True if there are no errors
+  diagnostics: ScriptDiagnostic[];
+  repaired?: Funscript; // Repaired script, if requested and the structure allowed it
+}
+
+const DEFAULT_MAX_GAP_MS = 5 * 60 * 1000;
+const DEFAULT_MIN_SPACING_MS = 1000 / 60;
+
+/**
+ * Validate a funscript and report every problem found
+ * @param content Parsed script content
+ * @param options Validation options
+ */
+export function validateFunscript(
+  content: unknown,
+  options: ScriptValidationOptions = {}
+): ScriptValidationReport {
+  if (
+    !content ||
+    typeof content !== "object" ||
+    !Array.isArray((content as Record<string, unknown>).actions)
+  ) {
+    return {
+      valid: false,
+      diagnostics: [
+        {
+          code: "invalid-structure",
+          severity: "error",
+          message: "Script must be an object with an actions array",
+        },
+      ],
+    };
+  }
+
+  const funscript = content as Funscript;
+  const diagnostics: ScriptDiagnostic[] = [];
+  const range =
+    typeof funscript.range === "number" && funscript.range > 0
+      ? funscript.range
+      : 100;
+
+  if (funscript.actions.length === 0 && !funscript.rotation?.length) {
+    diagnostics.push({
+      code: "empty",
+      severity: "error",
+      message: "Script has no actions",
+      axis: PRIMARY_AXIS,
+    });
+  }
+
+  diagnostics.push(
+    ...validateActions(funscript.actions, PRIMARY_AXIS, range, options)
+  );
+
+  if (Array.isArray(funscript.axes)) {
+    for (const axis of funscript.axes) {
+      if (!axis || !Array.isArray(axis.actions)) {
+        diagnostics.push({
+          code: "invalid-structure",
+          severity: "error",
+          message: "Axis must be an object with an actions array",
+          axis: String(axis?.id ?? "unknown"),
+        });
+        continue;
+      }
+      diagnostics.push(
+        ...validateActions(axis.actions, String(axis.id), range, options)
+      );
+    }
+  }
+
+  const report: ScriptValidationReport = {
+    valid: !diagnostics.some((diagnostic) => diagnostic.severity === "error"),
+    diagnostics,
+  };
+
+  if (options.repair) {
+    report.repaired = repairFunscript(funscript);
+  }
+
+  return report;
+}
+
+/**
+ * Repair a funscript:
+ * - drops invalid actions and actions with negative timestamps
+ * - rescales positions when a non-standard `range` is declared
+ * - rounds and clamps positions to 0-100
+ * - sorts actions and keeps the last action of duplicate timestamps
+ */
+export function repairFunscript(funscript: Funscript): Funscript {
+  const range =
+    typeof funscript.range === "number" && funscript.range > 0
+      ? funscript.range
+      : 100;
+
+  const repaired: Funscript = {
+    ...funscript,
+    actions: repairActions(funscript.actions, range),
+  };
+  delete repaired.range;
+
+  if (Array.isArray(funscript.axes)) {
+    repaired.axes = funscript.axes
+      .filter((axis) => axis && Array.isArray(axis.actions))
+      .map(
+        (axis): FunscriptAxis => ({
+          ...axis,
+          actions: repairActions(axis.actions, range),
+        })
+      );
+  }
+
+  return repaired;
+}
+
+/**
+ * Summarize the errors of a report in a single message
+ */
+export function formatValidationErrors(report: ScriptValidationReport): string {
+  const errors = report.diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error"
+  );
+
+  if (errors.length === 0) {
+    return "";
+  }
+
+  const first = errors[0];
+  const location =
+    first.actionIndex !== undefined
+      ? ` (${first.axis ?? PRIMARY_AXIS} action ${first.actionIndex})`
+      : "";
+
+  return `${errors.length} error${errors.length > 1 ? "s" : ""}: ${
+    first.message
+  }${location}`;
+}
+
+/**
+ * Validate the actions of a single axis
+ */
+function validateActions(
+  actions: unknown[],
+  axis: string,
+  range: number,
+  options: ScriptValidationOptions
+): ScriptDiagnostic[] {
+  const diagnostics: ScriptDiagnostic[] = [];
+  const maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS;
+  const minSpacingMs = options.minSpacingMs ?? DEFAULT_MIN_SPACING_MS;
+  // Scripts declaring a wider range are rescaled to 0-100 on repair
+  const maxPosition = Math.max(100, range);
+  let prev: FunscriptAction | null = null;
+
+  actions.forEach((item, actionIndex) => {
+    const add = (
+      code: ScriptDiagnosticCode,
+      severity: ScriptDiagnosticSeverity,
+      message: string
+    ) => diagnostics.push({ code, severity, message, actionIndex, axis });
+
+    if (!isValidAction(item)) {
+      add("invalid-action", "error", "Action must have numeric at and pos");
+      return;
+    }
+
+    const action = item as FunscriptAction;
+
+    if (action.at < 0) {
+      add("negative-time", "error", `Negative timestamp ${action.at}`);
+    }
+
+    if (action.pos < 0 || action.pos > maxPosition) {
+      add(
+        "position-out-of-range",
+        "error",
+        `Position ${action.pos} is outside 0-${maxPosition}`
+      );
+    } else if (range < 100 && action.pos > range) {
+      add(
+        "range-mismatch",
+        "warning",
+        `Position ${action.pos} exceeds the declared range ${range}`
+      );
+    }
+
+    if (prev) {
+      const spacing = action.at - prev.at;
+
+      if (spacing < 0) {
+        add(
+          "unsorted",
+          "warning",
+          `Timestamp ${action.at} is before the previous action (${prev.at})`
+        );
+      } else if (spacing === 0) {
+        add(
+          "duplicate-timestamp",
+          "warning",
+          `Duplicate timestamp ${action.at}`
+        );
+      } else if (spacing < minSpacingMs) {
+        add(
+          "sub-frame-spacing",
+          "info",
+          `Only ${spacing}ms after the previous action`
+        );
+      } else if (spacing > maxGapMs) {
+        add(
+          "large-gap",
+          "info",
+          `Gap of ${Math.round(spacing / 1000)}s before this action`
+        );
+      }
+    }
+
+    prev = action;
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Repair the actions of a single axis
+ */
+function repairActions(actions: unknown[], range: number): FunscriptAction[] {
+  const valid = actions
+    .filter(isValidAction)
+    .map((item) => item as FunscriptAction)
+    .filter((action) => action.at >= 0)
+    .map((action) => ({
+      ...action,
+      at: Math.round(action.at),
+      pos: Math.round(
+        Math.min(100, Math.max(0, (Math.min(action.pos, range) / range) * 100))
+      ),
+    }))
+    .sort((a, b) => a.at - b.at);
+
+  // Keep the last action for duplicate timestamps
+  return valid.filter(
+    (action, index) =>
+      index === valid.length - 1 || valid[index + 1].at !== action.at
+  );
+}
+
+/**
+ * Check that an action has finite numeric at and pos
+ */
+function isValidAction(item: unknown): boolean {
+  if (!item || typeof item !== "object") {
+    return false;
+  }
+
+  const action = item as Record<string, unknown>;
+  return (
+    typeof action.at === "number" &&
+    Number.isFinite(action.at) &&
+    typeof action.pos === "number" &&
+    Number.isFinite(action.pos)
+  );
+}
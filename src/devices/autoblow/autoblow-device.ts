@@ -8,12 +8,23 @@ import {
   ConnectionState,
   DeviceCapability,
   DeviceInfo,
+  DeviceScriptLimits,
   DeviceScriptLoadResult,
   Funscript,
   FunscriptAction,
   HapticDevice,
+  ScriptOptions,
 } from '../../core/device-interface'
 import { EventEmitter } from '../../core/events'
+import { scaleFunscriptTime } from '../../core/script-transforms'
+import {
+  ScriptLoop,
+  ScriptLoopOptions,
+  getLoopTime,
+  isSameScriptLoop,
+  renderLoopFunscript,
+  resolveScriptLoop,
+} from '../../core/script-loop'
 import { AutoblowSettings, AutoblowDeviceType } from './types'
 
 // Use type imports for SDK types to avoid runtime issues
@@ -30,6 +41,16 @@ const DEFAULT_CONFIG: AutoblowSettings = {
   offset: 0,
 }
 
+/**
+ * Playback position, from the time given to play or syncTime
+ */
+interface PlaybackClock {
+  timeMs: number
+  startedAt: number // Wall clock time (Date.now())
+  playbackRate: number
+  loop: boolean | ScriptLoopOptions
+}
+
 /**
  * Autoblow device implementation
  */
@@ -42,6 +63,23 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
   private _deviceType: AutoblowDeviceType | null = null
   private _isPlaying: boolean = false
   private _scriptPrepared: boolean = false
+  private _sourceFunscript: Funscript | null = null // As prepared (rate 1)
+  private _uploadedRate: number = 1.0 // Rate the uploaded script is timed for
+  private _uploadedLoop: { loop: ScriptLoop; endMs: number } | null = null
+  private _limitSpeed: boolean = true
+
+  // Loop emulation: restarts the loop when the rendered repeats run out
+  private _playingLoop: {
+    loop: ScriptLoop
+    options: boolean | ScriptLoopOptions
+    endMs: number
+    playbackRate: number
+  } | null = null
+  private _loopTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Pause emulation: the device only starts and stops its sync script
+  private _playbackClock: PlaybackClock | null = null // Set while playing
+  private _pausedPlayback: PlaybackClock | null = null
 
   readonly id: string = 'autoblow'
   readonly name: string = 'Autoblow'
@@ -50,6 +88,8 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
     DeviceCapability.LINEAR,
     DeviceCapability.STROKE,
   ]
+  readonly supportedAxes: string[] = ['L0']
+  readonly scriptLimits: DeviceScriptLimits = { maxSpeed: 400 } // Full stroke in ~0.25s
 
   constructor(config?: Partial<AutoblowSettings>) {
     super()
@@ -74,6 +114,13 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
     return this._isPlaying
   }
 
+  /**
+   * Get pause state
+   */
+  get isPaused(): boolean {
+    return this._pausedPlayback !== null
+  }
+
   /**
    * Get the device type (ultra or vacuglide)
    */
@@ -161,6 +208,10 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
       this._deviceType = null
       this._isPlaying = false
       this._scriptPrepared = false
+      this._playingLoop = null
+      this._playbackClock = null
+      this._pausedPlayback = null
+      this._clearLoopTimer()
       this._connectionState = ConnectionState.DISCONNECTED
 
       this.emit('connectionStateChanged', this._connectionState)
@@ -222,11 +273,18 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
    *
    * @param funscript The parsed funscript content
    */
-  async prepareScript(funscript: Funscript): Promise<DeviceScriptLoadResult> {
+  async prepareScript(
+    funscript: Funscript,
+    options?: ScriptOptions,
+  ): Promise<DeviceScriptLoadResult> {
     if (!this.isConnected || !this._device) {
       return { success: false, error: 'Device not connected' }
     }
 
+    if (options?.signal?.aborted) {
+      return { success: false, error: 'Script preparation aborted' }
+    }
+
     try {
       // Validate funscript format
       if (!funscript.actions || !Array.isArray(funscript.actions)) {
@@ -236,63 +294,25 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
         }
       }
 
-      // Convert to Autoblow SDK format
-      const sdkFunscript = {
-        actions: funscript.actions.map((action: FunscriptAction) => ({
-          at: action.at,
-          pos: action.pos,
-        })),
+      const upload = await this._uploadFunscript(funscript, options?.signal)
+      if (!upload.success) {
+        return upload
       }
 
-      const isReactNative =
-        typeof navigator !== 'undefined' &&
-        navigator.product === 'ReactNative'
-
-      if (isReactNative) {
-        // React Native's FormData doesn't support Blob. Make the API call
-        // directly using the RN-compatible { uri, type, name } pattern.
-        const cluster = this._device.connectedCluster
-        if (!cluster) {
-          return { success: false, error: 'Device cluster not available' }
-        }
-        const clusterUrl = cluster.includes('http')
-          ? cluster
-          : `https://${cluster}`
-
-        const jsonStr = JSON.stringify(sdkFunscript)
-        const base64 = btoa(jsonStr)
-        const formData = new FormData()
-        formData.append('file', {
-          uri: `data:application/json;base64,${base64}`,
-          type: 'application/json',
-          name: 'funscript.json',
-        } as unknown as Blob)
-
-        const response = await fetch(
-          `${clusterUrl}/autoblow/sync-script/upload-funscript`,
-          {
-            method: 'PUT',
-            body: formData,
-            headers: {
-              'x-device-token': this._device.deviceToken,
-            },
-          },
-        )
-
-        if (!response.ok) {
-          const text = await response.text().catch(() => response.statusText)
-          return {
-            success: false,
-            error: `Upload failed (${response.status}): ${text}`,
-          }
-        }
-      } else {
-        await this._device.syncScriptUploadFunscriptFile(
-          sdkFunscript as AutoblowSdkTypes.Funscript,
-        )
+      // The SDK upload can't be cancelled - drop a script replaced meanwhile
+      if (options?.signal?.aborted) {
+        return { success: false, error: 'Script preparation aborted' }
       }
 
       this._scriptPrepared = true
+      this._sourceFunscript = funscript
+      this._uploadedRate = 1.0
+      this._uploadedLoop = null
+      // Paused position and loop belong to the replaced script
+      this._playingLoop = null
+      this._pausedPlayback = null
+      this._clearLoopTimer()
+      this._limitSpeed = options?.limitSpeed !== false
 
       this.emit('scriptLoaded', {
         type: 'funscript',
@@ -301,6 +321,9 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
 
       return { success: true }
     } catch (error) {
+      if (options?.signal?.aborted) {
+        return { success: false, error: 'Script preparation aborted' }
+      }
       console.error('Autoblow: Error preparing script:', error)
       return {
         success: false,
@@ -312,12 +335,16 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
   }
 
   /**
-   * Start playback at the specified time
+   * Start playback at the specified time.
+   * The device plays scripts at their own pace only, so for other rates the
+   * script is re-rendered at that rate and uploaded again. It can't loop
+   * either: loops upload a rendered script with the loop body repeated, and
+   * playback restarts at the loop start when its repeats run out.
    */
   async play(
     timeMs: number,
-    _playbackRate: number = 1.0,
-    _loop: boolean = false,
+    playbackRate: number = 1.0,
+    loop: boolean | ScriptLoopOptions = false,
   ): Promise<boolean> {
     if (!this.isConnected || !this._device) {
       this.emit('error', 'Cannot play: Device not connected')
@@ -330,17 +357,49 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
     }
 
     try {
+      this._clearLoopTimer()
+      this._pausedPlayback = null
+
+      const scriptLoop = resolveScriptLoop(this._sourceFunscript!, loop)
+      const upload = await this._uploadFor(playbackRate, scriptLoop)
+      if (!upload.success) {
+        this.emit('error', `Cannot play: ${upload.error}`)
+        return false
+      }
+
       // Apply offset before starting
       if (this._config.offset !== 0) {
         await this._device.syncScriptOffset(this._config.offset)
       }
 
-      await this._device.syncScriptStart(timeMs)
+      const scriptTimeMs = scriptLoop
+        ? getLoopTime(timeMs, scriptLoop)
+        : timeMs
+      await this._device.syncScriptStart(scriptTimeMs / this._uploadedRate)
       this._isPlaying = true
+      this._playbackClock = {
+        timeMs,
+        startedAt: Date.now(),
+        playbackRate,
+        loop,
+      }
+
+      this._playingLoop =
+        scriptLoop && this._uploadedLoop
+          ? {
+              loop: scriptLoop,
+              options: loop,
+              endMs: this._uploadedLoop.endMs,
+              playbackRate,
+            }
+          : null
+      this._scheduleLoopRestart(scriptTimeMs)
 
       this.emit('playbackStateChanged', {
         isPlaying: this._isPlaying,
         timeMs,
+        playbackRate,
+        loop,
       })
 
       return true
@@ -368,6 +427,11 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
     }
 
     try {
+      this._clearLoopTimer()
+      this._playingLoop = null
+      this._playbackClock = null
+      this._pausedPlayback = null
+
       await this._device.syncScriptStop()
       this._isPlaying = false
 
@@ -396,7 +460,19 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
 
     try {
       // Autoblow doesn't have a direct sync method, restart at new position
-      await this._device.syncScriptStart(timeMs)
+      // (in the time of the script as uploaded for the current rate and loop)
+      const scriptTimeMs = this._playingLoop
+        ? getLoopTime(timeMs, this._playingLoop.loop)
+        : timeMs
+      await this._device.syncScriptStart(scriptTimeMs / this._uploadedRate)
+      this._scheduleLoopRestart(scriptTimeMs)
+      if (this._playbackClock) {
+        this._playbackClock = {
+          ...this._playbackClock,
+          timeMs,
+          startedAt: Date.now(),
+        }
+      }
       return true
     } catch (error) {
       console.error('Autoblow: Error syncing time:', error)
@@ -404,6 +480,219 @@ export class AutoblowDevice extends EventEmitter implements HapticDevice {
     }
   }
 
+  /**
+   * Pause playback. The device has no pause, so its sync script is stopped
+   * and the position is kept for resume.
+   */
+  async pause(): Promise<boolean> {
+    if (!this.isConnected || !this._device) {
+      this.emit('error', 'Cannot pause: Device not connected')
+      return false
+    }
+
+    const clock = this._playbackClock
+    if (!this._isPlaying || !clock) {
+      return false
+    }
+
+    try {
+      const timeMs =
+        clock.timeMs + (Date.now() - clock.startedAt) * clock.playbackRate
+
+      this._clearLoopTimer()
+      await this._device.syncScriptStop()
+      this._isPlaying = false
+      this._playbackClock = null
+      this._pausedPlayback = { ...clock, timeMs }
+
+      this.emit('playbackStateChanged', { isPlaying: false, paused: true })
+      return true
+    } catch (error) {
+      console.error('Autoblow: Error pausing playback:', error)
+      this.emit(
+        'error',
+        `Pause error: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return false
+    }
+  }
+
+  /**
+   * Resume paused playback at the paused position (or `timeMs`), without
+   * uploading the script again
+   * @param timeMs Time to resume at
+   */
+  async resume(timeMs?: number): Promise<boolean> {
+    const paused = this._pausedPlayback
+    if (!paused) {
+      return false
+    }
+
+    return this.play(
+      timeMs ?? paused.timeMs,
+      paused.playbackRate,
+      paused.loop,
+    )
+  }
+
+  /**
+   * Upload a script to the device's sync script slot
+   * @param funscript Script to upload
+   * @param signal Cancels the upload where the platform allows it
+   */
+  private async _uploadFunscript(
+    funscript: Funscript,
+    signal?: AbortSignal,
+  ): Promise<DeviceScriptLoadResult> {
+    if (!this._device) {
+      return { success: false, error: 'Device not connected' }
+    }
+
+    // Convert to Autoblow SDK format (whole milliseconds and positions)
+    const sdkFunscript = {
+      actions: funscript.actions.map((action: FunscriptAction) => ({
+        at: Math.round(action.at),
+        pos: Math.round(action.pos),
+      })),
+    }
+
+    const isReactNative =
+      typeof navigator !== 'undefined' &&
+      navigator.product === 'ReactNative'
+
+    if (isReactNative) {
+      // React Native's FormData doesn't support Blob. Make the API call
+      // directly using the RN-compatible { uri, type, name } pattern.
+      const cluster = this._device.connectedCluster
+      if (!cluster) {
+        return { success: false, error: 'Device cluster not available' }
+      }
+      const clusterUrl = cluster.includes('http')
+        ? cluster
+        : `https://${cluster}`
+
+      const jsonStr = JSON.stringify(sdkFunscript)
+      const base64 = btoa(jsonStr)
+      const formData = new FormData()
+      formData.append('file', {
+        uri: `data:application/json;base64,${base64}`,
+        type: 'application/json',
+        name: 'funscript.json',
+      } as unknown as Blob)
+
+      const response = await fetch(
+        `${clusterUrl}/autoblow/sync-script/upload-funscript`,
+        {
+          method: 'PUT',
+          body: formData,
+          headers: {
+            'x-device-token': this._device.deviceToken,
+          },
+          signal,
+        },
+      )
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => response.statusText)
+        return {
+          success: false,
+          error: `Upload failed (${response.status}): ${text}`,
+        }
+      }
+    } else {
+      await this._device.syncScriptUploadFunscriptFile(
+        sdkFunscript as AutoblowSdkTypes.Funscript,
+      )
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Re-render the prepared script for a playback rate and loop and upload
+   * it, unless the uploaded script already matches
+   * @param playbackRate Playback rate (1.0 keeps the script's timing)
+   * @param loop Loop to render the loop body repeats for
+   */
+  private async _uploadFor(
+    playbackRate: number,
+    loop: ScriptLoop | null,
+  ): Promise<DeviceScriptLoadResult> {
+    if (!this._sourceFunscript) {
+      return { success: false, error: 'No script prepared' }
+    }
+
+    if (
+      playbackRate === this._uploadedRate &&
+      isSameScriptLoop(loop, this._uploadedLoop?.loop ?? null)
+    ) {
+      return { success: true }
+    }
+
+    try {
+      const rendered = loop
+        ? renderLoopFunscript(this._sourceFunscript, loop)
+        : null
+      const looped = rendered?.funscript ?? this._sourceFunscript
+      const funscript =
+        playbackRate === 1.0
+          ? looped
+          : scaleFunscriptTime(
+              looped,
+              playbackRate,
+              this._limitSpeed ? this.scriptLimits.maxSpeed : undefined,
+            )
+
+      const result = await this._uploadFunscript(funscript)
+      if (result.success) {
+        this._uploadedRate = playbackRate
+        this._uploadedLoop =
+          loop && rendered ? { loop, endMs: rendered.endMs } : null
+      }
+      return result
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  /**
+   * Restart a loop at its start when the rendered repeats run out
+   * @param scriptTimeMs The current position in the rendered script
+   */
+  private _scheduleLoopRestart(scriptTimeMs: number): void {
+    this._clearLoopTimer()
+
+    const playing = this._playingLoop
+    if (!playing) {
+      return
+    }
+
+    const delayMs = (playing.endMs - scriptTimeMs) / playing.playbackRate
+    this._loopTimer = setTimeout(() => {
+      this._loopTimer = null
+      this.play(
+        playing.loop.startMs,
+        playing.playbackRate,
+        playing.options,
+      ).catch(console.error)
+    }, Math.max(0, delayMs))
+  }
+
+  /**
+   * Cancel a scheduled loop restart
+   */
+  private _clearLoopTimer(): void {
+    if (this._loopTimer !== null) {
+      clearTimeout(this._loopTimer)
+      this._loopTimer = null
+    }
+  }
+
   /**
    * Set the sync script offset
    */
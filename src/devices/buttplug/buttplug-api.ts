@@ -18,6 +18,7 @@ interface FeatureOutput {
 interface DeviceFeature {
   featureIndex: number
   type: string
+  minSteps: number // min value from Output[type].Value[0], negative for signed outputs
   maxSteps: number // max value from Output[type].Value[1]
 }
 
@@ -164,9 +165,32 @@ export class ButtplugApi extends EventEmitter {
   async rotateDevice(
     index: number,
     speed: number,
-    _clockwise: boolean,
+    clockwise: boolean,
   ): Promise<boolean> {
-    return this.outputCmd(index, 'Rotate', speed)
+    const directional = this.findFeature(index, 'RotateWithDirection')
+    if (directional) {
+      try {
+        const value = Math.ceil(
+          directional.maxSteps * Math.min(1, Math.max(0, speed)),
+        )
+        await this.ws.send('OutputCmd', {
+          DeviceIndex: index,
+          FeatureIndex: directional.featureIndex,
+          Command: {
+            RotateWithDirection: { Value: value, Clockwise: clockwise },
+          },
+        })
+        return true
+      } catch {
+        return false
+      }
+    }
+
+    // Signed rotate ranges encode counter-clockwise as negative values
+    const feat = this.findFeature(index, 'Rotate')
+    if (!feat) return false
+    const direction = feat.minSteps < 0 && !clockwise ? -1 : 1
+    return this.outputCmd(index, 'Rotate', speed, direction)
   }
 
   async oscillateDevice(
@@ -266,6 +290,7 @@ export class ButtplugApi extends EventEmitter {
         parsed.push({
           featureIndex: parseInt(idx),
           type: outputType,
+          minSteps: Array.isArray(outputDef.Value) ? outputDef.Value[0] : 0,
           maxSteps: outputDef.Value?.[1] ?? outputDef.Value ?? 100,
         })
       }
@@ -279,7 +304,7 @@ export class ButtplugApi extends EventEmitter {
       name: dev.DeviceDisplayName || dev.DeviceName,
       canVibrate: has('Vibrate'),
       canLinear: has('Position') || has('HwPositionWithDuration'),
-      canRotate: has('Rotate'),
+      canRotate: has('Rotate') || has('RotateWithDirection'),
       canOscillate: has('Oscillate'),
     }
 
@@ -315,13 +340,14 @@ export class ButtplugApi extends EventEmitter {
     deviceIndex: number,
     outputType: string,
     percent: number,
+    direction: 1 | -1 = 1,
   ): Promise<boolean> {
     const feat = this.findFeature(deviceIndex, outputType)
     if (!feat) return false
     try {
-      const value = Math.ceil(
-        feat.maxSteps * Math.min(1, Math.max(0, percent)),
-      )
+      const value =
+        direction *
+        Math.ceil(feat.maxSteps * Math.min(1, Math.max(0, percent)))
       await this.ws.send('OutputCmd', {
         DeviceIndex: deviceIndex,
         FeatureIndex: feat.featureIndex,
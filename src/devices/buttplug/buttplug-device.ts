@@ -7,12 +7,23 @@ import {
   ConnectionState,
   DeviceCapability,
   DeviceInfo,
+  DeviceScriptLimits,
   DeviceScriptLoadResult,
   Funscript,
-  FunscriptAction,
   HapticDevice,
+  RotationAction,
+  ScriptOptions,
 } from '../../core/device-interface'
 import { EventEmitter } from '../../core/events'
+import {
+  ScriptLoop,
+  ScriptLoopOptions,
+  crossfadeLoopSeam,
+  getLoopTime,
+  getScriptEndTime,
+  resolveScriptLoop,
+} from '../../core/script-loop'
+import { FunscriptTimeline, findActionIndex } from '../../core/script-timeline'
 import { ButtplugApi } from './buttplug-api'
 import {
   ButtplugConnectionState,
@@ -22,7 +33,12 @@ import {
   DevicePreference,
 } from './types'
 import { generateClientName } from './buttplug-server'
-import { createMultiDeviceCommandExecutor } from './command-helpers'
+import {
+  EXECUTOR_AXES,
+  ROTATION_TRACK,
+  ScriptCommandExecutor,
+  createMultiDeviceCommandExecutor,
+} from './command-helpers'
 
 /**
  * Default Buttplug configuration
@@ -35,6 +51,7 @@ const DEFAULT_CONFIG: ButtplugSettings = {
   serverUrl: 'ws://127.0.0.1:12345',
   clientName: generateClientName(),
   strokeRange: { min: 0, max: 1 },
+  offset: 0,
   allowedFeatures: {
     vibrate: true,
     rotate: true,
@@ -52,12 +69,20 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
   private _config: ButtplugSettings
   private _connectionState: ConnectionState = ConnectionState.DISCONNECTED
   private _isPlaying: boolean = false
-  private _currentScriptActions: FunscriptAction[] = []
+  private _funscript: Funscript | null = null
+  private _timeline: FunscriptTimeline = new FunscriptTimeline([])
   private _lastActionIndex: number = -1
+  private _axisTimelines: Map<string, FunscriptTimeline> = new Map()
+  private _lastAxisIndices: Map<string, number> = new Map()
+  private _rotationActions: RotationAction[] = []
+  private _lastRotationIndex: number = -1
   private _playbackInterval: ReturnType<typeof setInterval> | null = null
   private _playbackStartTime: number = 0
   private _playbackRate: number = 1.0
-  private _loopPlayback: boolean = false
+  private _loop: ScriptLoop | null = null
+  private _lastScriptTimeMs: number = 0
+  private _executor: ScriptCommandExecutor | null = null
+  private _pausedElapsedMs: number | null = null // Playback clock at pause
   private _scriptPrepared: boolean = false
 
   readonly id: string = 'buttplug'
@@ -69,6 +94,7 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
     DeviceCapability.LINEAR,
     DeviceCapability.OSCILLATE,
   ]
+  readonly supportedAxes: string[] = ['L0', ...EXECUTOR_AXES]
 
   constructor(config?: Partial<ButtplugSettings>) {
     super()
@@ -82,6 +108,14 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
     this._setupApiEventHandlers()
   }
 
+  /**
+   * Script limits from the config: scripts are only simplified when a
+   * minimum command interval is set
+   */
+  get scriptLimits(): DeviceScriptLimits {
+    return { minIntervalMs: this._config.minCommandIntervalMs }
+  }
+
   /**
    * Get connected state
    */
@@ -96,6 +130,13 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
     return this._isPlaying
   }
 
+  /**
+   * Get pause state
+   */
+  get isPaused(): boolean {
+    return this._pausedElapsedMs !== null
+  }
+
   /**
    * Connect to Buttplug server
    */
@@ -164,6 +205,9 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
       // Update state
       this._connectionState = ConnectionState.DISCONNECTED
       this._scriptPrepared = false
+      this._funscript = null
+      this._executor = null
+      this._pausedElapsedMs = null
       this.emit('connectionStateChanged', this._connectionState)
       this.emit('disconnected')
 
@@ -204,6 +248,14 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
       }
     }
 
+    if (config.offset !== undefined) {
+      this._config.offset = config.offset
+    }
+
+    if ('minCommandIntervalMs' in config) {
+      this._config.minCommandIntervalMs = config.minCommandIntervalMs
+    }
+
     if (config.allowedFeatures !== undefined) {
       this._config.allowedFeatures = {
         ...this._config.allowedFeatures,
@@ -246,16 +298,28 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
    *
    * @param funscript The parsed funscript content
    */
-  async prepareScript(funscript: Funscript): Promise<DeviceScriptLoadResult> {
+  async prepareScript(
+    funscript: Funscript,
+    options?: ScriptOptions,
+  ): Promise<DeviceScriptLoadResult> {
+    if (options?.signal?.aborted) {
+      return { success: false, error: 'Script preparation aborted' }
+    }
+
     try {
-      // Store the actions (already sorted and processed by DeviceManager)
-      this._currentScriptActions = [...funscript.actions]
-      this._lastActionIndex = -1
+      // Store the script (already sorted and processed by DeviceManager)
+      this._funscript = funscript
+      this._setTracks(funscript)
+      // Paused position and loop belong to the replaced script
+      this._loop = null
+      this._pausedElapsedMs = null
       this._scriptPrepared = true
 
       this.emit('scriptLoaded', {
         type: 'funscript',
-        actions: this._currentScriptActions.length,
+        actions: this._timeline.length,
+        axes: ['L0', ...this._axisTimelines.keys()],
+        rotationActions: this._rotationActions.length,
       })
 
       return { success: true }
@@ -276,14 +340,14 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
   async play(
     timeMs: number,
     playbackRate: number = 1.0,
-    loop: boolean = false,
+    loop: boolean | ScriptLoopOptions = false,
   ): Promise<boolean> {
     if (!this.isConnected) {
       this.emit('error', 'Cannot play: Not connected to a server')
       return false
     }
 
-    if (!this._scriptPrepared || !this._currentScriptActions.length) {
+    if (!this._scriptPrepared || !this._hasTracks()) {
       this.emit('error', 'Cannot play: No script prepared')
       return false
     }
@@ -294,29 +358,34 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
         await this.stop()
       }
 
-      // Set playback parameters
+      // Set playback parameters. Looping maps the playback clock into the
+      // loop range; a crossfaded seam is played from blended tracks.
+      this._pausedElapsedMs = null
       this._playbackStartTime = Date.now() - timeMs
       this._playbackRate = playbackRate
-      this._loopPlayback = loop
-      this._lastActionIndex = -1
+      this._loop = resolveScriptLoop(this._funscript!, loop)
+      this._setTracks(
+        this._loop
+          ? crossfadeLoopSeam(this._funscript!, this._loop)
+          : this._funscript!,
+      )
 
       // Create command executor for all devices
       const devices = this._api.getDevices()
       const preferences = this._api.getDevicePreferences()
-      const executor = createMultiDeviceCommandExecutor(
+      this._executor = createMultiDeviceCommandExecutor(
         this._api,
         devices,
         preferences,
         false,
+        [
+          ...this._axisTimelines.keys(),
+          ...(this._rotationActions.length ? [ROTATION_TRACK] : []),
+        ],
       )
 
       // Start playback
-      this._isPlaying = true
-
-      // Create an interval to check for actions
-      this._playbackInterval = setInterval(() => {
-        this._processActions(executor)
-      }, 20)
+      this._startPlaybackInterval()
 
       this.emit('playbackStateChanged', {
         isPlaying: this._isPlaying,
@@ -350,18 +419,14 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
     }
 
     try {
-      // Clear playback interval
-      if (this._playbackInterval !== null) {
-        clearInterval(this._playbackInterval)
-        this._playbackInterval = null
-      }
+      this._stopPlaybackInterval()
+      this._pausedElapsedMs = null
 
       // Stop all devices
       await this._api.stopAllDevices()
 
       // Update playback state
-      this._isPlaying = false
-      this._lastActionIndex = -1
+      this._resetTrackIndices()
 
       this.emit('playbackStateChanged', { isPlaying: false })
       return true
@@ -379,6 +444,66 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
     }
   }
 
+  /**
+   * Pause playback: the playback clock is frozen and device motion stopped
+   * (vibration would continue otherwise), keeping the prepared tracks
+   */
+  async pause(): Promise<boolean> {
+    if (!this.isConnected) {
+      this.emit('error', 'Cannot pause: Not connected to a server')
+      return false
+    }
+
+    if (!this._isPlaying) {
+      return false
+    }
+
+    try {
+      this._stopPlaybackInterval()
+      this._pausedElapsedMs = Date.now() - this._playbackStartTime
+
+      await this._api.stopAllDevices()
+
+      this.emit('playbackStateChanged', { isPlaying: false, paused: true })
+      return true
+    } catch (error) {
+      console.error('Buttplug: Error pausing playback:', error)
+      this.emit(
+        'error',
+        `Pausing playback error: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return false
+    }
+  }
+
+  /**
+   * Resume paused playback from the paused position (or `timeMs`)
+   * @param timeMs Time to resume at
+   */
+  async resume(timeMs?: number): Promise<boolean> {
+    if (!this.isConnected || this._pausedElapsedMs === null) {
+      return false
+    }
+
+    const elapsedMs = timeMs ?? this._pausedElapsedMs
+    this._playbackStartTime = Date.now() - elapsedMs
+    this._pausedElapsedMs = null
+
+    // Send the current position of every track again
+    this._resetTrackIndices()
+    this._startPlaybackInterval()
+
+    this.emit('playbackStateChanged', {
+      isPlaying: this._isPlaying,
+      timeMs: elapsedMs,
+      playbackRate: this._playbackRate,
+    })
+
+    return true
+  }
+
   /**
    * Sync playback time
    */
@@ -435,55 +560,49 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
   /**
    * Process script actions based on current time
    */
-  private _processActions(executor: {
-    executeAction: (
-      pos: number,
-      prevPos: number,
-      durationMs: number,
-      strokeRange?: { min: number; max: number },
-    ) => Promise<void>
-  }): void {
-    if (!this._isPlaying || !this._currentScriptActions.length) {
+  private _processActions(executor: ScriptCommandExecutor): void {
+    if (!this._isPlaying || !this._hasTracks()) {
       return
     }
 
-    // Calculate current time in the script
+    // Calculate current time in the script, shifted by the offset (read on
+    // every tick, so changes apply live)
     const currentTime = Date.now()
     const elapsedMs =
-      (currentTime - this._playbackStartTime) * this._playbackRate
-
-    // Find the action for the current time
-    const actionIndex = this._findActionIndexForTime(elapsedMs)
-
-    // If we reached the end of the script
-    if (
-      actionIndex === this._currentScriptActions.length - 1 &&
-      elapsedMs > this._currentScriptActions[actionIndex]?.at + 1000
-    ) {
-      if (this._loopPlayback) {
-        // Reset for loop playback
-        this._playbackStartTime = Date.now()
-        this._lastActionIndex = -1
-        return
-      } else {
-        // We're past the end of the script, stop playback
-        this.stop().catch(console.error)
-        return
-      }
+      (currentTime - this._playbackStartTime) * this._playbackRate +
+      (this._config.offset ?? 0)
+
+    // We're past the end of the script, stop playback
+    const endMs = getScriptEndTime(this._funscript!)
+    if (!this._loop && elapsedMs > endMs + 1000) {
+      this.stop().catch(console.error)
+      return
+    }
+
+    // Wrapped around the loop (or synced backwards): start the tracks over
+    const scriptTimeMs = this._loop
+      ? getLoopTime(elapsedMs, this._loop)
+      : elapsedMs
+    if (scriptTimeMs < this._lastScriptTimeMs) {
+      this._resetTrackIndices()
     }
+    this._lastScriptTimeMs = scriptTimeMs
+
+    // Find the action being moved to: the next one, or the last at the end
+    const actions = this._timeline.actions
+    const actionIndex = actions.length
+      ? Math.min(this._timeline.indexAt(scriptTimeMs) + 1, actions.length - 1)
+      : -1
 
     // If we have a new action to execute
     if (actionIndex !== this._lastActionIndex && actionIndex >= 0) {
-      const action = this._currentScriptActions[actionIndex]
-      const prevAction =
-        actionIndex > 0
-          ? this._currentScriptActions[actionIndex - 1]
-          : { pos: 0 }
+      const action = actions[actionIndex]
+      const prevAction = actionIndex > 0 ? actions[actionIndex - 1] : { pos: 0 }
 
       // Calculate duration for linear movement based on time with previous action
       let durationMs = 500 // Default duration if we can't determine
-      if (actionIndex < this._currentScriptActions.length - 1) {
-        const prevActionTime = this._currentScriptActions[actionIndex - 1]
+      if (actionIndex < actions.length - 1) {
+        const prevActionTime = actions[actionIndex - 1]
         durationMs = action?.at - prevActionTime?.at
 
         // Enforce a minimum duration to prevent erratic movement
@@ -502,48 +621,117 @@ export class ButtplugDevice extends EventEmitter implements HapticDevice {
 
       this._lastActionIndex = actionIndex
     }
+
+    this._processAxisActions(executor, scriptTimeMs)
+    this._processRotationActions(executor, scriptTimeMs)
   }
 
   /**
-   * Find the action index for the given time
+   * Send the current value of each additional axis when it changes
    */
-  private _findActionIndexForTime(timeMs: number): number {
-    if (!this._currentScriptActions.length) {
-      return -1
+  private _processAxisActions(
+    executor: ScriptCommandExecutor,
+    scriptTimeMs: number,
+  ): void {
+    for (const [axisId, timeline] of this._axisTimelines) {
+      const index = timeline.indexAt(scriptTimeMs)
+
+      if (index >= 0 && index !== this._lastAxisIndices.get(axisId)) {
+        executor
+          .executeAxisValue(axisId, timeline.positionAt(scriptTimeMs)!)
+          .catch((error) => {
+            console.error(`Error executing ${axisId} action:`, error)
+          })
+        this._lastAxisIndices.set(axisId, index)
+      }
     }
+  }
 
-    // If we're past the end of the script
-    if (
-      timeMs >
-      this._currentScriptActions[this._currentScriptActions.length - 1].at
-    ) {
-      return this._currentScriptActions.length - 1
+  /**
+   * Send the current rotation speed and direction when it changes
+   */
+  private _processRotationActions(
+    executor: ScriptCommandExecutor,
+    scriptTimeMs: number,
+  ): void {
+    const index = findActionIndex(this._rotationActions, scriptTimeMs)
+
+    if (index >= 0 && index !== this._lastRotationIndex) {
+      const action = this._rotationActions[index]
+      executor
+        .executeRotation(action.speed, action.clockwise)
+        .catch((error) => {
+          console.error('Error executing rotation action:', error)
+        })
+      this._lastRotationIndex = index
     }
+  }
 
-    // If we're before the beginning of the script
-    if (timeMs < this._currentScriptActions[0].at) {
-      return 0
+  /**
+   * Build the playback tracks from a script
+   */
+  private _setTracks(funscript: Funscript): void {
+    this._timeline = new FunscriptTimeline(funscript.actions)
+
+    // The additional axes this device can drive (vibration, twist)
+    this._axisTimelines = new Map()
+    for (const axis of funscript.axes ?? []) {
+      if (EXECUTOR_AXES.includes(axis.id) && axis.actions.length > 0) {
+        this._axisTimelines.set(
+          axis.id,
+          new FunscriptTimeline(axis.actions, { interpolation: 'step' }),
+        )
+      }
     }
 
-    // Binary search for the action
-    let low = 0
-    let high = this._currentScriptActions.length - 1
-    let bestIndex = -1
+    // The rotation track (Vorze-style scripts)
+    this._rotationActions = [...(funscript.rotation ?? [])]
+    this._resetTrackIndices()
+  }
 
-    while (low <= high) {
-      const mid = Math.floor((low + high) / 2)
-      if (this._currentScriptActions[mid].at <= timeMs) {
-        bestIndex = mid
-        low = mid + 1
-      } else {
-        high = mid - 1
-      }
+  /**
+   * Start processing the tracks with the current command executor
+   */
+  private _startPlaybackInterval(): void {
+    const executor = this._executor!
+    this._isPlaying = true
+
+    // Create an interval to check for actions
+    this._playbackInterval = setInterval(() => {
+      this._processActions(executor)
+    }, 20)
+  }
+
+  /**
+   * Stop processing the tracks
+   */
+  private _stopPlaybackInterval(): void {
+    if (this._playbackInterval !== null) {
+      clearInterval(this._playbackInterval)
+      this._playbackInterval = null
     }
+    this._isPlaying = false
+  }
 
-    // Return the next action
-    return bestIndex < this._currentScriptActions.length - 1
-      ? bestIndex + 1
-      : bestIndex
+  /**
+   * Whether any track has actions to play
+   */
+  private _hasTracks(): boolean {
+    return (
+      this._timeline.length > 0 ||
+      this._axisTimelines.size > 0 ||
+      this._rotationActions.length > 0
+    )
+  }
+
+  /**
+   * Forget the last executed actions, so the tracks start over
+   */
+  private _resetTrackIndices(): void {
+    this._lastActionIndex = -1
+    this._lastAxisIndices.clear()
+    this._lastRotationIndex = -1
+    this._lastScriptTimeMs = 0
   }
 
   /**
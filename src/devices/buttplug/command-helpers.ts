@@ -28,30 +28,76 @@ export function convertScriptPositionToDevicePosition(
 }
 
 /**
- * Create a command executor for a specific device
+ * Executes script commands on one or more Buttplug devices
  */
-export function createDeviceCommandExecutor(
-  api: ButtplugApi,
-  deviceInfo: ButtplugDeviceInfo,
-  preferences: DevicePreference,
-  invertScript: boolean = false,
-): {
+export interface ScriptCommandExecutor {
+  /**
+   * Execute a primary (L0) axis action
+   */
   executeAction: (
     pos: number,
     prevPos: number,
     durationMs: number,
     strokeRange?: { min: number; max: number },
   ) => Promise<void>
-} {
+
+  /**
+   * Execute a value of an additional axis (V0 vibration, R0 twist)
+   */
+  executeAxisValue: (axisId: string, pos: number) => Promise<void>
+
+  /**
+   * Execute a rotation track action (speed 0-100 with direction)
+   */
+  executeRotation: (speed: number, clockwise: boolean) => Promise<void>
+}
+
+/**
+ * Additional axes a command executor can drive directly.
+ * When a script carries one of these, the primary axis no longer drives
+ * the matching feature.
+ */
+export const EXECUTOR_AXES = ['V0', 'R0']
+
+/**
+ * Name of the rotation track (Vorze-style scripts) in the executor's script axes
+ */
+export const ROTATION_TRACK = 'rotation'
+
+/**
+ * Create a command executor for a specific device
+ * @param scriptAxes Additional axes (and rotation track) present in the script
+ */
+export function createDeviceCommandExecutor(
+  api: ButtplugApi,
+  deviceInfo: ButtplugDeviceInfo,
+  preferences: DevicePreference,
+  invertScript: boolean = false,
+  scriptAxes: string[] = [],
+): ScriptCommandExecutor {
   // If device is disabled, return a no-op executor
   if (!preferences.enabled) {
     return {
       executeAction: async () => {
         /* No-op */
       },
+      executeAxisValue: async () => {
+        /* No-op */
+      },
+      executeRotation: async () => {
+        /* No-op */
+      },
     }
   }
 
+  // Features driven by their own axis instead of the primary axis
+  const vibrateFromAxis = scriptAxes.includes('V0')
+  const rotateFromAxis =
+    scriptAxes.includes('R0') || scriptAxes.includes(ROTATION_TRACK)
+
+  const intensity =
+    preferences.intensity !== undefined ? preferences.intensity : 1.0
+
   // Track last position to detect unchanged positions
   let lastPos = -1
 
@@ -71,10 +117,6 @@ export function createDeviceCommandExecutor(
           invertScript,
         )
 
-        // Apply device-specific intensity scaling if configured
-        const intensity =
-          preferences.intensity !== undefined ? preferences.intensity : 1.0
-
         // For vibration and rotation: based on position directly
         // If position hasn't changed from last position, set to 0
         let speed = Math.min(1.0, Math.max(0, pos / 100)) * intensity
@@ -99,14 +141,14 @@ export function createDeviceCommandExecutor(
           await api.linearDevice(deviceInfo.index, position, durationMs)
         }
 
-        if (preferences.useVibrate) {
+        if (preferences.useVibrate && !vibrateFromAxis) {
           await api.vibrateDevice(
             deviceInfo.index,
             invertScript ? 1 - speed : speed,
           )
         }
 
-        if (preferences.useRotate) {
+        if (preferences.useRotate && !rotateFromAxis) {
           await api.rotateDevice(
             deviceInfo.index,
             speed,
@@ -124,25 +166,54 @@ export function createDeviceCommandExecutor(
         )
       }
     },
+    executeAxisValue: async (axisId: string, pos: number) => {
+      try {
+        const value = Math.min(1.0, Math.max(0, pos / 100))
+
+        if (axisId === 'V0' && preferences.useVibrate) {
+          await api.vibrateDevice(deviceInfo.index, value * intensity)
+        }
+
+        if (axisId === 'R0' && preferences.useRotate) {
+          // Twist is centered at 50: distance from center is the speed,
+          // the side is the direction
+          const speed = Math.min(1.0, Math.abs(value - 0.5) * 2) * intensity
+          await api.rotateDevice(deviceInfo.index, speed, value >= 0.5)
+        }
+      } catch (error) {
+        console.error(
+          `Error executing ${axisId} command for device ${deviceInfo.name}:`,
+          error,
+        )
+      }
+    },
+    executeRotation: async (speed: number, clockwise: boolean) => {
+      if (!preferences.useRotate) return
+
+      try {
+        const value = Math.min(1.0, Math.max(0, speed / 100)) * intensity
+        await api.rotateDevice(deviceInfo.index, value, clockwise)
+      } catch (error) {
+        console.error(
+          `Error executing rotation for device ${deviceInfo.name}:`,
+          error,
+        )
+      }
+    },
   }
 }
 
 /**
  * Create a command executor for multiple devices
+ * @param scriptAxes Additional axes (and rotation track) present in the script
  */
 export function createMultiDeviceCommandExecutor(
   api: ButtplugApi,
   devices: ButtplugDeviceInfo[],
   preferences: Map<number, DevicePreference>,
   invertScript: boolean = false,
-): {
-  executeAction: (
-    pos: number,
-    prevPos: number,
-    durationMs: number,
-    strokeRange?: { min: number; max: number },
-  ) => Promise<void>
-} {
+  scriptAxes: string[] = [],
+): ScriptCommandExecutor {
   // Create executors for all enabled devices
   const deviceExecutors = devices
     .filter((device) => {
@@ -156,6 +227,7 @@ export function createMultiDeviceCommandExecutor(
         device,
         devicePrefs!,
         invertScript,
+        scriptAxes,
       )
     })
 
@@ -174,5 +246,19 @@ export function createMultiDeviceCommandExecutor(
         ),
       )
     },
+    executeAxisValue: async (axisId: string, pos: number) => {
+      await Promise.all(
+        deviceExecutors.map((executor) =>
+          executor.executeAxisValue(axisId, pos),
+        ),
+      )
+    },
+    executeRotation: async (speed: number, clockwise: boolean) => {
+      await Promise.all(
+        deviceExecutors.map((executor) =>
+          executor.executeRotation(speed, clockwise),
+        ),
+      )
+    },
   }
 }
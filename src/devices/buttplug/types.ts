@@ -27,6 +27,8 @@ export interface ButtplugSettings extends DeviceSettings {
   serverUrl?: string
   clientName: string
   strokeRange?: { min: number; max: number }
+  offset?: number // Timing offset in ms, added to the playback time
+  minCommandIntervalMs?: number // Simplify scripts to keep commands this far apart (unset: no simplification)
   allowedFeatures: {
     vibrate: boolean
     rotate: boolean
@@ -153,6 +153,7 @@ export class HandyApi {
    */
   public async uploadScript(
     scriptFile: File | Blob | string,
+    signal?: AbortSignal,
   ): Promise<string | null> {
     try {
       const formData = new FormData()
@@ -190,6 +191,7 @@ export class HandyApi {
         body: formData,
         mode: 'cors',
         credentials: 'omit',
+        signal,
       })
 
       const data = (await response.json()) as { url: string }
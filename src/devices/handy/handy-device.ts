@@ -5,11 +5,24 @@ import {
   ConnectionState,
   DeviceCapability,
   DeviceInfo,
+  DeviceScriptLimits,
   DeviceScriptLoadResult,
   Funscript,
   HapticDevice,
+  ScriptOptions,
 } from '../../core/device-interface'
 import { EventEmitter } from '../../core/events'
+import { hashScriptContent } from '../../core/script-cache'
+import {
+  ScriptLoop,
+  ScriptLoopOptions,
+  getLoopTime,
+  isSameScriptLoop,
+  isWholeScriptLoop,
+  renderLoopFunscript,
+  resolveScriptLoop,
+  trimLoopFunscript,
+} from '../../core/script-loop'
 import { HandyApi, createHandyApi } from './handy-api'
 import {
   HandyDeviceInfo,
@@ -19,6 +32,15 @@ import {
   HspPlayState,
 } from './types'
 
+/**
+ * A loop emulated with an uploaded script
+ */
+interface LoopScript {
+  loop: ScriptLoop
+  trimmed: boolean // Trimmed to the loop body and looped by HSSP
+  endMs: number | null // Where the repeats of a rendered script run out
+}
+
 /**
  * Default Handy configuration
  */
@@ -34,6 +56,16 @@ const DEFAULT_CONFIG: HandySettings = {
   },
 }
 
+/**
+ * Script playback position, from the time given to play or syncTime
+ */
+interface PlaybackClock {
+  timeMs: number
+  startedAt: number // Wall clock time (Date.now())
+  playbackRate: number
+  loop: boolean | ScriptLoopOptions
+}
+
 /**
  * Handy configuration options
  */
@@ -55,6 +87,26 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
   private _isPlaying: boolean = false
   private _eventSource: EventSource | null = null
   private _scriptPrepared: boolean = false
+  private _uploadedScripts: Map<string, string> = new Map() // Content hash -> hosted URL
+  private _funscript: Funscript | null = null
+
+  // Loop emulation (A-B ranges and crossfaded seams): the loop trimmed or
+  // rendered into the script set up on the device, null while it is the
+  // prepared script
+  private _setupLoop: LoopScript | null = null
+  private _emulatedLoop:
+    | (LoopScript & {
+        options: boolean | ScriptLoopOptions
+        playbackRate: number
+      })
+    | null = null
+  private _loopTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Pausing: HSSP has no pause, so script playback is stopped and played
+  // again from the position it was paused at; HSP streams pause natively
+  private _playbackClock: PlaybackClock | null = null // Set while HSSP plays
+  private _pausedPlayback: PlaybackClock | null = null
+  private _hspPaused: boolean = false
 
   // HSP state tracking
   private _hspState: HspState | null = null
@@ -67,6 +119,9 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
     DeviceCapability.LINEAR,
     DeviceCapability.STROKE,
   ]
+  readonly supportedAxes: string[] = ['L0']
+  readonly scriptLimits: DeviceScriptLimits = { maxSpeed: 500 } // Full stroke in ~0.2s
+  readonly latencyCompensated: boolean = true // HSSP commands carry the server time
 
   /**
    * Create a new Handy device instance
@@ -112,6 +167,13 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
     return this._isPlaying
   }
 
+  /**
+   * Get device pause state
+   */
+  get isPaused(): boolean {
+    return this._pausedPlayback !== null || this._hspPaused
+  }
+
   /**
    * Get current HSP state
    */
@@ -206,6 +268,13 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
       this._isPlaying = false
       this._hspState = null
       this._scriptPrepared = false
+      this._funscript = null
+      this._setupLoop = null
+      this._emulatedLoop = null
+      this._playbackClock = null
+      this._pausedPlayback = null
+      this._hspPaused = false
+      this._clearLoopTimer()
 
       // Emit events
       this.emit('connectionStateChanged', this._connectionState)
@@ -279,42 +348,43 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
 
   /**
    * Prepare a script for playback (upload to Handy server)
-   * The funscript is already parsed - we just need to upload it
+   * The funscript is already parsed - we just need to upload it.
+   * Scripts already uploaded in this session are set up from their hosted
+   * URL without uploading them again.
    *
    * @param funscript The parsed funscript content
-   * @param _options Script options (inversion already applied by DeviceManager)
+   * @param options Script options (inversion already applied by DeviceManager)
    */
-  async prepareScript(funscript: Funscript): Promise<DeviceScriptLoadResult> {
+  async prepareScript(
+    funscript: Funscript,
+    options?: ScriptOptions,
+  ): Promise<DeviceScriptLoadResult> {
     if (!this.isConnected) {
       return { success: false, error: 'Device not connected' }
     }
 
-    try {
-      // Pass raw JSON string — uploadScript handles platform differences
-      // (React Native's FormData doesn't support Blob properly)
-      const uploadedUrl = await this._api.uploadScript(
-        JSON.stringify(funscript),
-      )
-
-      if (!uploadedUrl) {
-        return {
-          success: false,
-          error: 'Failed to upload script to Handy server',
-        }
-      }
-
-      // Setup the script on the device
-      const success = await this._api.setupScript(uploadedUrl)
+    if (options?.signal?.aborted) {
+      return { success: false, error: 'Script preparation aborted' }
+    }
 
-      if (success) {
+    try {
+      const result = await this._setupFunscript(funscript, options?.signal)
+
+      if (result.success) {
+        this._funscript = funscript
+        this._setupLoop = null
+        // Paused position and loop belong to the replaced script
+        this._emulatedLoop = null
+        this._pausedPlayback = null
+        this._clearLoopTimer()
         this._scriptPrepared = true
         this.emit('scriptLoaded', {
-          url: uploadedUrl,
+          url: result.url,
           actions: funscript.actions.length,
         })
         return { success: true }
       } else {
-        return { success: false, error: 'Failed to setup script on device' }
+        return { success: false, error: result.error }
       }
     } catch (error) {
       console.error('Handy: Error preparing script:', error)
@@ -329,14 +399,20 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
 
   /**
    * Play the loaded script at the specified time (HSSP)
+   * Looping the whole script uses HSSP's own loop. For A-B ranges and
+   * crossfaded seams a script trimmed to the loop body is uploaded and
+   * looped; running into the range from before it plays a rendered script
+   * with the loop body repeated, restarted at the loop start (trimmed) when
+   * its repeats run out.
+   *
    * @param timeMs Current time in milliseconds
    * @param playbackRate Playback rate (1.0 = normal speed)
-   * @param loop Whether to loop the script
+   * @param loop Loop the whole script (true) or a range
    */
   async play(
     timeMs: number,
     playbackRate: number = 1.0,
-    loop: boolean = false,
+    loop: boolean | ScriptLoopOptions = false,
   ): Promise<boolean> {
     if (!this.isConnected) {
       this.emit('error', 'Cannot play: Device not connected')
@@ -349,11 +425,44 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
     }
 
     try {
-      const hspState = await this._api.play(timeMs, playbackRate, loop)
+      this._clearLoopTimer()
+      this._pausedPlayback = null
+
+      const scriptLoop = resolveScriptLoop(this._funscript!, loop)
+      const emulatedLoop =
+        scriptLoop && !isWholeScriptLoop(this._funscript!, scriptLoop)
+          ? scriptLoop
+          : null
+
+      const loopTimeMs = emulatedLoop
+        ? getLoopTime(timeMs, emulatedLoop)
+        : timeMs
+      const trimmed = !!emulatedLoop && loopTimeMs >= emulatedLoop.startMs
+
+      const setup = await this._setupPlaybackScript(emulatedLoop, trimmed)
+      if (!setup.success) {
+        this.emit('error', `Cannot play: ${setup.error}`)
+        return false
+      }
+
+      const startMs = trimmed ? loopTimeMs - emulatedLoop!.startMs : loopTimeMs
+      const hspState = await this._api.play(
+        startMs,
+        playbackRate,
+        !!scriptLoop && (!emulatedLoop || trimmed),
+      )
+
+      this._emulatedLoop =
+        emulatedLoop && setup.loopScript
+          ? { ...setup.loopScript, options: loop, playbackRate }
+          : null
 
       if (hspState) {
         this._isPlaying =
           hspState.play_state === 1 || hspState.play_state === '1'
+        this._playbackClock = this._isPlaying
+          ? { timeMs, startedAt: Date.now(), playbackRate, loop }
+          : null
 
         this.emit('playbackStateChanged', {
           isPlaying: this._isPlaying,
@@ -362,6 +471,10 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
           loop,
         })
 
+        if (this._isPlaying) {
+          this._scheduleLoopRestart(startMs)
+        }
+
         return true
       } else {
         this.emit('error', 'Failed to start playback')
@@ -389,6 +502,12 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
     }
 
     try {
+      this._clearLoopTimer()
+      this._emulatedLoop = null
+      this._playbackClock = null
+      this._pausedPlayback = null
+      this._hspPaused = false
+
       // Try HSP stop first, then HSSP stop
       let hspState = await this._api.hspStop()
       if (!hspState) {
@@ -432,6 +551,39 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
     }
 
     try {
+      if (this._playbackClock) {
+        this._playbackClock = {
+          ...this._playbackClock,
+          timeMs,
+          startedAt: Date.now(),
+        }
+      }
+
+      // Keep an emulated loop within the trimmed or rendered script
+      const emulated = this._emulatedLoop
+      if (emulated) {
+        const loopTimeMs = getLoopTime(timeMs, emulated.loop)
+
+        if (!emulated.trimmed) {
+          this._scheduleLoopRestart(loopTimeMs)
+          return await this._api.syncVideoTime(loopTimeMs, filter)
+        }
+
+        // The trimmed script can't play times before the loop
+        if (loopTimeMs < emulated.loop.startMs) {
+          return await this.play(
+            timeMs,
+            emulated.playbackRate,
+            emulated.options,
+          )
+        }
+
+        return await this._api.syncVideoTime(
+          loopTimeMs - emulated.loop.startMs,
+          filter,
+        )
+      }
+
       return await this._api.syncVideoTime(timeMs, filter)
     } catch (error) {
       console.error('Handy: Error syncing time:', error)
@@ -439,6 +591,78 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
     }
   }
 
+  /**
+   * Pause playback. HSP streams pause natively; script playback (HSSP) is
+   * stopped at its current position, as HSSP has no pause.
+   */
+  async pause(): Promise<boolean> {
+    if (!this.isConnected) {
+      this.emit('error', 'Cannot pause: Device not connected')
+      return false
+    }
+
+    if (!this._isPlaying) {
+      return false
+    }
+
+    const clock = this._playbackClock
+    if (!clock) {
+      return (await this.hspPause()) !== null
+    }
+
+    try {
+      const timeMs =
+        clock.timeMs + (Date.now() - clock.startedAt) * clock.playbackRate
+
+      this._clearLoopTimer()
+      const hspState = await this._api.stop()
+      if (!hspState) {
+        this.emit('error', 'Failed to pause playback')
+        return false
+      }
+
+      this._hspState = hspState
+      this._isPlaying = false
+      this._playbackClock = null
+      this._pausedPlayback = { ...clock, timeMs }
+
+      this.emit('playbackStateChanged', { isPlaying: false, paused: true })
+      return true
+    } catch (error) {
+      console.error('Handy: Error pausing:', error)
+      this.emit(
+        'error',
+        `Pause error: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      )
+      return false
+    }
+  }
+
+  /**
+   * Resume paused playback. Script playback starts again at the paused
+   * position (or `timeMs`) without uploading the script again; HSP streams
+   * resume where they were paused.
+   * @param timeMs Time to resume script playback at
+   */
+  async resume(timeMs?: number): Promise<boolean> {
+    const paused = this._pausedPlayback
+    if (paused) {
+      return this.play(
+        timeMs ?? paused.timeMs,
+        paused.playbackRate,
+        paused.loop,
+      )
+    }
+
+    if (this._hspPaused) {
+      return (await this.hspResume()) !== null
+    }
+
+    return false
+  }
+
   /**
    * Get device-specific information
    */
@@ -580,6 +804,9 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
 
       if (state) {
         this._hspState = state
+        this._playbackClock = null
+        this._pausedPlayback = null
+        this._hspPaused = false
         this._isPlaying =
           state.play_state === HspPlayState.PLAYING ||
           state.play_state === 1 ||
@@ -621,6 +848,7 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
       if (state) {
         this._hspState = state
         this._isPlaying = false
+        this._hspPaused = false
         this.emit('hspStateChanged', state)
         this.emit('playbackStateChanged', { isPlaying: false })
       }
@@ -646,6 +874,7 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
       if (state) {
         this._hspState = state
         this._isPlaying = false
+        this._hspPaused = true
         this.emit('hspStateChanged', state)
         this.emit('playbackStateChanged', { isPlaying: false })
       }
@@ -671,6 +900,7 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
 
       if (state) {
         this._hspState = state
+        this._hspPaused = false
         this._isPlaying =
           state.play_state === HspPlayState.PLAYING ||
           state.play_state === 1 ||
@@ -817,6 +1047,131 @@ export class HandyDevice extends EventEmitter implements HapticDevice {
   // Private Methods
   // ============================================
 
+  /**
+   * Upload a script (unless an identical one is hosted already) and set it
+   * up on the device
+   */
+  private async _setupFunscript(
+    funscript: Funscript,
+    signal?: AbortSignal,
+  ): Promise<{ success: boolean; url?: string; error?: string }> {
+    // Pass raw JSON string — uploadScript handles platform differences
+    // (React Native's FormData doesn't support Blob properly). The Handy
+    // takes whole milliseconds and positions.
+    const content = JSON.stringify({
+      ...funscript,
+      actions: funscript.actions.map((action) => ({
+        ...action,
+        at: Math.round(action.at),
+        pos: Math.round(action.pos),
+      })),
+    })
+    const hash = await hashScriptContent(content)
+
+    // Reuse the hosted copy of an identical script
+    let scriptUrl = this._uploadedScripts.get(hash) ?? null
+    if (scriptUrl && (await this._api.setupScript(scriptUrl))) {
+      return { success: true, url: scriptUrl }
+    }
+
+    // The hosted copy may have expired - upload again
+    this._uploadedScripts.delete(hash)
+    scriptUrl = await this._api.uploadScript(content, signal)
+
+    // Don't set up a script that was replaced while uploading
+    if (signal?.aborted) {
+      return { success: false, error: 'Script preparation aborted' }
+    }
+
+    if (!scriptUrl) {
+      return {
+        success: false,
+        error: 'Failed to upload script to Handy server',
+      }
+    }
+
+    this._uploadedScripts.set(hash, scriptUrl)
+
+    // Setup the script on the device
+    if (!(await this._api.setupScript(scriptUrl))) {
+      return { success: false, error: 'Failed to setup script on device' }
+    }
+
+    return { success: true, url: scriptUrl }
+  }
+
+  /**
+   * Make sure the script set up on the device is the prepared script, or the
+   * prepared script trimmed to or rendered with a loop
+   * @param loop The loop to emulate, null for the prepared script
+   * @param trimmed Trim the script to the loop body instead of rendering
+   */
+  private async _setupPlaybackScript(
+    loop: ScriptLoop | null,
+    trimmed: boolean,
+  ): Promise<{ success: boolean; loopScript?: LoopScript; error?: string }> {
+    const current = this._setupLoop
+    if (
+      isSameScriptLoop(loop, current?.loop ?? null) &&
+      (!current || current.trimmed === trimmed)
+    ) {
+      return { success: true, loopScript: current ?? undefined }
+    }
+
+    let funscript = this._funscript!
+    let loopScript: LoopScript | null = null
+
+    if (loop && trimmed) {
+      funscript = trimLoopFunscript(funscript, loop)
+      loopScript = { loop, trimmed, endMs: null }
+    } else if (loop) {
+      const rendered = renderLoopFunscript(funscript, loop)
+      funscript = rendered.funscript
+      loopScript = { loop, trimmed, endMs: rendered.endMs }
+    }
+
+    const result = await this._setupFunscript(funscript)
+    if (!result.success) {
+      return result
+    }
+
+    this._setupLoop = loopScript
+    return { success: true, loopScript: loopScript ?? undefined }
+  }
+
+  /**
+   * Restart an emulated loop at its start when the rendered repeats run out
+   * @param scriptTimeMs The current position in the rendered script
+   */
+  private _scheduleLoopRestart(scriptTimeMs: number): void {
+    this._clearLoopTimer()
+
+    const emulated = this._emulatedLoop
+    if (!emulated || emulated.endMs === null) {
+      return
+    }
+
+    const delayMs = (emulated.endMs - scriptTimeMs) / emulated.playbackRate
+    this._loopTimer = setTimeout(() => {
+      this._loopTimer = null
+      this.play(
+        emulated.loop.startMs,
+        emulated.playbackRate,
+        emulated.options,
+      ).catch(console.error)
+    }, Math.max(0, delayMs))
+  }
+
+  /**
+   * Cancel a scheduled loop restart
+   */
+  private _clearLoopTimer(): void {
+    if (this._loopTimer !== null) {
+      clearTimeout(this._loopTimer)
+      this._loopTimer = null
+    }
+  }
+
   /**
    * Set up event handlers for the device
    */
@@ -6,10 +6,30 @@
  */
 
 // Core exports
-export { DeviceManager } from './core/device-manager'
+export {
+  DeviceManager,
+  MAIN_SCRIPT_ID,
+  type ChapterChangedEvent,
+  type DeviceCommand,
+  type DeviceCommandResult,
+  type DeviceCommandsEvent,
+  type DeviceManagerOptions,
+  type LoopIterationEvent,
+  type LoopRange,
+  type ScriptRoute,
+} from './core/device-manager'
 
 export { EventEmitter } from './core/events'
 
+export {
+  MediaSync,
+  createMediaElementSource,
+  type MediaSyncOptions,
+  type MediaSyncResyncEvent,
+  type MediaSyncSource,
+  type MediaSyncSourceEvent,
+} from './core/media-sync'
+
 export {
   // Enums
   ConnectionState,
@@ -17,22 +37,194 @@ export {
   // Types
   type DeviceInfo,
   type DeviceSettings,
+  type DeviceScriptLimits,
   type DeviceScriptLoadResult,
   type Funscript,
   type FunscriptAction,
+  type FunscriptAxis,
+  type FunscriptBookmark,
+  type FunscriptChapter,
+  type FunscriptMetadata,
   type HapticDevice,
+  type RotationAction,
+  type ScriptBookmark,
+  type ScriptChapter,
   type ScriptData,
+  type ScriptContent,
+  type ScriptFetchOptions,
+  type ScriptLoadProgress,
   type ScriptLoadResult,
   type ScriptOptions,
+  type ScriptTransform,
 } from './core/device-interface'
 
 export {
   loadScript,
+  parseScriptText,
+  SCRIPT_LOAD_ABORTED,
   parseCSVToFunscript,
+  parseVorzeCSV,
+  isVorzeCSV,
+  hasPlayableActions,
   invertFunscript,
   isValidFunscript,
   type LoadScriptResult,
 } from './core/script-loader'
 
+export {
+  registerScriptFormat,
+  unregisterScriptFormat,
+  getScriptFormat,
+  getScriptFormatNames,
+  resolveScriptFormats,
+  getScriptFormatByExtension,
+  getUrlExtension,
+  stripCompressionExtension,
+  type ScriptFormat,
+  type ScriptFormatHints,
+} from './core/format-registry'
+
+export {
+  detectScriptPackaging,
+  decompressBytes,
+  readZipEntries,
+  DEFAULT_MAX_INFLATED_BYTES,
+  MAX_ZIP_ENTRIES,
+  pickMainScript,
+  getScriptBaseName,
+  type ScriptBundle,
+  type ScriptBundleEntry,
+  type ScriptPackaging,
+  type ZipEntry,
+} from './core/script-archive'
+
+export {
+  ScriptCache,
+  MemoryScriptCacheStorage,
+  getScriptCacheKey,
+  hashScriptContent,
+  type ScriptCacheEntry,
+  type ScriptCacheOptions,
+  type ScriptCacheStats,
+  type ScriptCacheStorage,
+  type ScriptCacheValidators,
+} from './core/script-cache'
+
+export {
+  IndexedDBScriptCacheStorage,
+  FileSystemScriptCacheStorage,
+  type FileSystemScriptCacheStorageOptions,
+  type ScriptCacheFileSystem,
+} from './core/script-cache-storage'
+
+export {
+  analyzeFunscript,
+  type AnalyzeFunscriptOptions,
+  type FunscriptChapterStats,
+  type FunscriptHeatmapBucket,
+  type FunscriptIdleGap,
+  type FunscriptMovementStats,
+  type FunscriptStats,
+} from './core/script-analyzer'
+
+export {
+  validateFunscript,
+  repairFunscript,
+  formatValidationErrors,
+  type ScriptDiagnostic,
+  type ScriptDiagnosticCode,
+  type ScriptDiagnosticSeverity,
+  type ScriptValidationOptions,
+  type ScriptValidationReport,
+} from './core/script-validator'
+
+export {
+  serializeFunscript,
+  serializeFunscriptAxes,
+  serializeFunscriptToCSV,
+  type SerializeCSVOptions,
+  type SerializeFunscriptOptions,
+} from './core/script-serializer'
+
+export {
+  simplifyActions,
+  simplifyFunscript,
+  measureSimplifyError,
+  findExtremes,
+  type FunscriptSimplifyReport,
+  type SimplifyOptions,
+  type SimplifyReport,
+} from './core/script-simplifier'
+
+export {
+  resampleActions,
+  resampleFunscript,
+  type ResampleOptions,
+} from './core/script-resampler'
+
+export {
+  resolveScriptLoop,
+  isWholeScriptLoop,
+  isSameScriptLoop,
+  getLoopTime,
+  getScriptEndTime,
+  crossfadeLoopSeam,
+  renderLoopFunscript,
+  trimLoopFunscript,
+  type ScriptLoopOptions,
+  type ScriptLoop,
+  type RenderLoopOptions,
+} from './core/script-loop'
+
+export {
+  FunscriptTimeline,
+  findActionIndex,
+  type FunscriptTimelineOptions,
+  type TimelineInterpolation,
+  type TimelineSegment,
+} from './core/script-timeline'
+
+export {
+  registerScriptTransform,
+  unregisterScriptTransform,
+  getScriptTransform,
+  getScriptTransformNames,
+  applyScriptTransforms,
+  limitActionSpeed,
+  limitFunscriptSpeed,
+  scaleFunscriptTime,
+  type ScriptTransformFn,
+} from './core/script-transforms'
+
+export {
+  FUNSCRIPT_AXIS_NAMES,
+  PRIMARY_AXIS,
+  getAxisActions,
+  getAxisFromUrl,
+  getFunscriptAxisIds,
+  getSiblingAxisUrl,
+  normalizeFunscriptAxes,
+  resolveAxisId,
+  selectFunscriptAxes,
+} from './core/funscript-axes'
+
+export {
+  getFunscriptChapters,
+  getFunscriptBookmarks,
+  getChapterAt,
+  normalizeFunscriptMetadata,
+  parseFunscriptTime,
+  formatFunscriptTime,
+} from './core/funscript-metadata'
+
+export {
+  detectLegacyFormat,
+  parseKiirooScript,
+  parseLaunchScript,
+  parseVirtualRealPornScript,
+  parseRealTouchScript,
+  type LegacyScriptFormat,
+} from './core/legacy-formats'
+
 // Device exports
 export * from './devices'